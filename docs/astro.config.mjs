@@ -99,6 +99,9 @@ export default defineConfig({
               slug: 'guides/structured-output',
             },
             { label: 'Error Handling', slug: 'guides/error-handling' },
+            { label: 'Observability', slug: 'guides/observability' },
+            { label: 'Content Updates', slug: 'guides/content-updates' },
+            { label: 'Local Files', slug: 'guides/local-files' },
           ],
         },
         {
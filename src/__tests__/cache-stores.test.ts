@@ -0,0 +1,153 @@
+import { afterEach, expect, test } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createFileCacheStore } from '../cache/file.ts';
+import { createKeyValueCacheStore } from '../cache/key-value.ts';
+import { createMemoryCacheStore } from '../cache/memory.ts';
+import type { CacheRecord, KeyValueAdapter, PromptResponse } from '../types.ts';
+
+const promptResponse: PromptResponse = {
+  promptId: 'prompt-1',
+  promptName: 'Test Prompt',
+  version: '1.0.0',
+  systemMessage: 'System.',
+  userMessage: 'Hello.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+};
+
+const record: CacheRecord = {
+  type: 'prompt',
+  version: '1.0.0',
+  body: promptResponse,
+  etag: '"v1"',
+  expiresAt: 1767225600000,
+};
+
+const tempDirs: string[] = [];
+
+const tempDir = () => {
+  const dir = join(
+    tmpdir(),
+    `promptly-cache-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  );
+  tempDirs.push(dir);
+  return dir;
+};
+
+const createMapAdapter = () => {
+  const values = new Map<string, string>();
+  const ttls = new Map<string, number | undefined>();
+  const adapter: KeyValueAdapter = {
+    get: async (key) => values.get(key),
+    set: async (key, value, ttl) => {
+      values.set(key, value);
+      ttls.set(key, ttl);
+    },
+    delete: async (key) => values.delete(key),
+  };
+  return { adapter, values, ttls };
+};
+
+afterEach(async () => {
+  await Promise.all(
+    tempDirs.splice(0).map((dir) => rm(dir, { recursive: true, force: true })),
+  );
+});
+
+test('memory store evicts the least recently used entry', () => {
+  const store = createMemoryCacheStore(2);
+
+  store.set('a', record);
+  store.set('b', record);
+  store.get('a');
+  store.set('c', record);
+
+  expect(store.get('a')).toEqual(record);
+  expect(store.get('b')).toBeUndefined();
+  expect(store.get('c')).toEqual(record);
+});
+
+test('memory store drops records once their ttl has passed', async () => {
+  const store = createMemoryCacheStore(10);
+
+  store.set('short', record, 1);
+  store.set('forever', record);
+  await Bun.sleep(5);
+
+  expect(store.get('short')).toBeUndefined();
+  expect(store.get('forever')).toEqual(record);
+});
+
+test('file store round-trips records through the filesystem', async () => {
+  const directory = tempDir();
+  const store = createFileCacheStore(directory);
+
+  await store.set('prompt:prompt-1@latest', record, 60_000);
+
+  // A second store over the same directory simulates a cold start
+  const coldStart = createFileCacheStore(directory);
+  expect(await coldStart.get('prompt:prompt-1@latest')).toEqual(record);
+});
+
+test('file store deletes records and ignores missing keys', async () => {
+  const store = createFileCacheStore(tempDir());
+
+  await store.set('key', record);
+  await store.delete('key');
+  await store.delete('never-set');
+
+  expect(await store.get('key')).toBeUndefined();
+});
+
+test('file store treats expired and unreadable files as misses', async () => {
+  const directory = tempDir();
+  const store = createFileCacheStore(directory);
+
+  await store.set('expired', record, 1);
+  await mkdir(directory, { recursive: true });
+  await writeFile(join(directory, 'corrupt.json'), '{not json', 'utf-8');
+  await Bun.sleep(5);
+
+  expect(await store.get('expired')).toBeUndefined();
+  expect(await store.get('corrupt')).toBeUndefined();
+});
+
+test('key-value store prefixes keys and passes the ttl to the adapter', async () => {
+  const { adapter, values, ttls } = createMapAdapter();
+  const store = createKeyValueCacheStore(adapter);
+
+  await store.set('prompt:prompt-1@latest', record, 60_000);
+
+  expect([...values.keys()]).toEqual(['promptly:prompt:prompt-1@latest']);
+  expect(ttls.get('promptly:prompt:prompt-1@latest')).toBe(60_000);
+  expect(await store.get('prompt:prompt-1@latest')).toEqual(record);
+});
+
+test('key-value store supports a custom prefix and deletes', async () => {
+  const { adapter, values } = createMapAdapter();
+  const store = createKeyValueCacheStore(adapter, { prefix: 'app:' });
+
+  await store.set('key', record);
+  expect(values.has('app:key')).toBe(true);
+
+  await store.delete('key');
+  expect(await store.get('key')).toBeUndefined();
+});
+
+test('key-value store ignores payloads it did not write', async () => {
+  const { adapter, values } = createMapAdapter();
+  const store = createKeyValueCacheStore(adapter);
+
+  values.set('promptly:garbage', 'not json');
+  values.set('promptly:other-format', JSON.stringify({ format: 99, record }));
+
+  expect(await store.get('garbage')).toBeUndefined();
+  expect(await store.get('other-format')).toBeUndefined();
+});
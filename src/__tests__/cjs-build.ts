@@ -0,0 +1,38 @@
+import { rm } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { join } from 'node:path';
+import { build, type Options } from 'tsup';
+import config from '../../tsup.config.ts';
+
+const require = createRequire(import.meta.url);
+
+export type CjsBuild = {
+  load: <T>(entry: string) => T;
+  remove: () => Promise<void>;
+};
+
+// Builds the CJS entries exactly as published, minus the declaration files,
+// inside node_modules so the bundles resolve their dependencies
+export const buildCjsEntries = async (): Promise<CjsBuild> => {
+  const outDir = join(
+    import.meta.dir,
+    '../../node_modules/.cache',
+    `promptly-cjs-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+  );
+  const [library] = config as Options[];
+  await build({
+    ...library,
+    // Build only this entry set rather than every config in the file
+    config: false,
+    format: ['cjs'],
+    dts: false,
+    clean: false,
+    silent: true,
+    outDir,
+  });
+
+  return {
+    load: (entry) => require(join(outDir, `${entry}.cjs`)),
+    remove: () => rm(outDir, { recursive: true, force: true }),
+  };
+};
@@ -0,0 +1,168 @@
+import { expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import { interpolate, interpolateStaticSegment } from '../interpolate.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  PromptlySource,
+  PromptResponse,
+} from '../types.ts';
+import { captureSyncError, stubModel } from './helpers.ts';
+
+const loyalty =
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  'Hi ${name}.{{#if tier}} You are a ${tier} member.{{else}} Join today.{{/if}}';
+
+test('interpolate() renders {{#if}} sections and their {{else}}', () => {
+  expect(interpolate(loyalty, { name: 'Ada', tier: 'gold' })).toBe(
+    'Hi Ada. You are a gold member.',
+  );
+  expect(interpolate(loyalty, { name: 'Ada', tier: '' })).toBe(
+    'Hi Ada. Join today.',
+  );
+  expect(interpolate(loyalty, { name: 'Ada' })).toBe('Hi Ada. Join today.');
+});
+
+test('interpolate() repeats {{#each}} sections with the item as this', () => {
+  const template =
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    'Items:{{#each items}} ${this.sku} x${this.qty} for ${name};{{else}} none{{/each}}';
+
+  const filled = interpolate(template, {
+    name: 'Ada',
+    items: [
+      { sku: 'A-1', qty: 2 },
+      { sku: 'B-7', qty: 1 },
+    ],
+  });
+  const empty = interpolate(template, { name: 'Ada', items: [] });
+
+  expect(filled).toBe('Items: A-1 x2 for Ada; B-7 x1 for Ada;');
+  expect(empty).toBe('Items: none');
+});
+
+test('sections nest, and empty lists are falsy', () => {
+  const template = [
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    '{{#each orders}}#${this.id}:',
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    '{{#each this.items}} ${this}{{/each}}',
+    '{{#if this.gift}} (gift){{/if}}\n{{/each}}',
+    '{{#if orders}}{{else}}No orders{{/if}}',
+  ].join('');
+
+  expect(
+    interpolate(template, {
+      orders: [
+        { id: 1, items: ['tea', 'cake'], gift: true },
+        { id: 2, items: ['jam'] },
+      ],
+    }),
+  ).toBe('#1: tea cake (gift)\n#2: jam\n');
+  expect(interpolate(template, { orders: [] })).toBe('No orders');
+});
+
+test('unmatched tags are left as text', () => {
+  expect(interpolate('a {{/if}} b {{else}} c', {})).toBe(
+    'a {{/if}} b {{else}} c',
+  );
+});
+
+test('strict mode skips variables in sections that did not render', () => {
+  const error = captureSyncError(() =>
+    interpolate(loyalty, { tier: 'gold' }, { strict: true }),
+  );
+  const unused = captureSyncError(() =>
+    interpolate(
+      loyalty,
+      { name: 'Ada', tier: 'gold', extra: 1 },
+      { strict: { unused: 'throw' } },
+    ),
+  );
+
+  expect(interpolate(loyalty, { name: 'Ada' }, { strict: true })).toBe(
+    'Hi Ada. Join today.',
+  );
+  expect(error.missingVariables).toEqual(['name']);
+  expect(unused.unusedVariables).toEqual(['extra']);
+});
+
+test('variables in sections that did not render still count as used', () => {
+  const greeting =
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    '{{#if vip}}Hello ${name | upper}{{else}}Hi{{/if}}{{#each items}}${this}{{else}}${fallback}{{/each}}';
+  const strict = { strict: { unused: 'throw' } } as const;
+
+  const hidden = interpolate(
+    greeting,
+    { vip: false, name: 'Ada', items: ['a'], fallback: 'none' },
+    strict,
+  );
+  const segment = interpolateStaticSegment(
+    '{{#if footer}}<p>{{footer}} {{#if year}}{{year}}{{/if}}</p>{{/if}}',
+    { footer: '', year: 2026 },
+    strict,
+  );
+
+  expect(hidden).toBe('Hia');
+  expect(segment).toBe('');
+});
+
+test('interpolateStaticSegment() renders sections around mustaches', () => {
+  const content =
+    '<ul>{{#each links}}<li><a href="{{this.url}}">{{this.label | upper}}</a></li>{{/each}}</ul>{{#if footer}}<p>{{footer}}</p>{{/if}}';
+
+  const result = interpolateStaticSegment(content, {
+    links: [{ url: '/a', label: 'a' }],
+  });
+
+  expect(result).toBe('<ul><li><a href="/a">A</a></li></ul>');
+});
+
+test('the client renders sections in prompts and composers', async () => {
+  const prompt: PromptResponse = {
+    promptId: 'loyalty',
+    promptName: 'Loyalty',
+    version: '1.0.0',
+    systemMessage: '',
+    userMessage: loyalty,
+    config: {
+      model: 'claude-haiku-4.5',
+      temperature: 0.7,
+      schema: [],
+      inputData: null,
+      inputDataRootName: null,
+    },
+  };
+  const composer: ComposerResponse = {
+    composerId: 'loyalty',
+    composerName: 'Loyalty',
+    version: '1.0.0',
+    config: { schema: [], inputData: null, inputDataRootName: null },
+    segments: [
+      {
+        type: 'html_block',
+        html: '{{#each perks}}<b>{{this}}</b>{{/each}}',
+      },
+    ],
+  };
+  const source: PromptlySource = {
+    getPrompt: async () => prompt,
+    getComposer: async () => composer,
+    listPrompts: async () => [prompt],
+    listComposers: async () => [composer],
+  };
+  const client = createPromptlyClient({ source, model: stubModel });
+
+  const { userMessage } = await client.getPrompt('loyalty');
+  const { formatComposer } = await client.getComposer('loyalty' as ComposerId, {
+    input: { perks: ['Free tea', 'Early access'] },
+  });
+
+  expect(userMessage({ name: 'Ada', tier: 'gold' })).toBe(
+    'Hi Ada. You are a gold member.',
+  );
+  expect(formatComposer({} as Record<string, string>)).toBe(
+    '<b>Free tea</b><b>Early access</b>',
+  );
+});
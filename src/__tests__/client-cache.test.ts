@@ -0,0 +1,358 @@
+import { afterEach, expect, mock, setSystemTime, test } from 'bun:test';
+import { createKeyValueCacheStore } from '../cache/key-value.ts';
+import { createMemoryCacheStore } from '../cache/memory.ts';
+import { createPromptlyClient } from '../client.ts';
+import type {
+  CacheOptions,
+  ComposerId,
+  ComposerResponse,
+  PromptResponse,
+  RevalidateEvent,
+} from '../types.ts';
+import {
+  mockComposerResponse,
+  mockGlobalFetch,
+  mockPromptResponse,
+  restoreFetch,
+  stubModel,
+} from './helpers.ts';
+
+const promptResponse: PromptResponse = {
+  ...mockPromptResponse,
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  userMessage: 'Hello ${name}.',
+};
+
+const composerResponse: ComposerResponse = {
+  ...mockComposerResponse,
+  composerId: 'comp-123',
+  segments: [
+    {
+      type: 'prompt',
+      promptId: 'prompt-a',
+      promptName: 'Intro',
+      version: '1.0.0',
+      systemMessage: null,
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+      userMessage: 'Write an intro for ${name}.',
+      config: { model: 'claude-haiku-4.5', temperature: 0.7 },
+    },
+  ],
+};
+
+const setup = (
+  cache: boolean | CacheOptions,
+  data: PromptResponse | ComposerResponse = promptResponse,
+) => {
+  mockGlobalFetch(() =>
+    Promise.resolve(
+      new Response(JSON.stringify(data), {
+        status: 200,
+        headers: { 'Content-Type': 'application/json' },
+      }),
+    ),
+  );
+
+  return createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    cache,
+  });
+};
+
+afterEach(() => {
+  restoreFetch();
+  setSystemTime();
+});
+
+test('getPrompt() does not cache when cache option is omitted', async () => {
+  mockGlobalFetch(() =>
+    Promise.resolve(new Response(JSON.stringify(promptResponse))),
+  );
+  const client = createPromptlyClient({ apiKey: 'test-key', model: stubModel });
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt');
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
+
+test('getPrompt() serves repeated lookups from the cache', async () => {
+  const client = setup(true);
+
+  const first = await client.getPrompt('my-prompt');
+  const second = await client.getPrompt('my-prompt');
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  expect(second.promptId).toBe(first.promptId);
+  expect(second.userMessage({ name: 'Alice' })).toBe('Hello Alice.');
+});
+
+test('getPrompt() caches each version under its own key', async () => {
+  const client = setup(true);
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt', { version: '1.0.0' });
+  await client.getPrompt('my-prompt', { version: '1.0.0' });
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
+
+test('getPrompt() refetches latest once the TTL has elapsed', async () => {
+  const client = setup({ ttl: 1000 });
+  setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+  await client.getPrompt('my-prompt');
+  setSystemTime(new Date('2026-01-01T00:00:00.500Z'));
+  await client.getPrompt('my-prompt');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+
+  setSystemTime(new Date('2026-01-01T00:00:01.500Z'));
+  await client.getPrompt('my-prompt');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
+
+test('getPrompt() keeps pinned versions cached past the TTL', async () => {
+  const client = setup({ ttl: 1000 });
+  setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+  await client.getPrompt('my-prompt', { version: '1.0.0' });
+  setSystemTime(new Date('2026-01-02T00:00:00Z'));
+  await client.getPrompt('my-prompt', { version: '1.0.0' });
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+});
+
+test('getPrompt() with bypassCache fetches and refreshes the entry', async () => {
+  const client = setup(true);
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt', { bypassCache: true });
+  await client.getPrompt('my-prompt');
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
+
+test('getPrompt() evicts the least recently used entry beyond maxEntries', async () => {
+  const client = setup({ maxEntries: 2 });
+
+  await client.getPrompt('a');
+  await client.getPrompt('b');
+  await client.getPrompt('a');
+  await client.getPrompt('c');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+
+  await client.getPrompt('a');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+
+  await client.getPrompt('b');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(4);
+});
+
+test('getComposer() caches the response but interpolates input per call', async () => {
+  const client = setup(true, composerResponse);
+
+  const first = await client.getComposer('comp-123', {
+    input: { name: 'Alice' },
+  });
+  const second = await client.getComposer('comp-123', {
+    input: { name: 'Bob' },
+  });
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  expect(first.prompts[0]?.prompt).toBe('Write an intro for Alice.');
+  expect(second.prompts[0]?.prompt).toBe('Write an intro for Bob.');
+});
+
+test('getComposer() does not share cache entries with prompts of the same id', async () => {
+  const client = setup(true, composerResponse);
+
+  await client.getComposer('shared-id' as ComposerId);
+  mockGlobalFetch(() =>
+    Promise.resolve(new Response(JSON.stringify(promptResponse))),
+  );
+  const prompt = await client.getPrompt('shared-id');
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  expect(prompt.promptId).toBe('test-id-123');
+});
+
+// --- stale-while-revalidate ---
+
+const setupVersions = (versions: string[], options: CacheOptions) => {
+  let callIndex = 0;
+  mockGlobalFetch(() => {
+    const version = versions[Math.min(callIndex, versions.length - 1)];
+    callIndex++;
+    return Promise.resolve(
+      new Response(JSON.stringify({ ...promptResponse, version })),
+    );
+  });
+
+  return createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    cache: { ttl: 1000, staleWhileRevalidate: true, ...options },
+  });
+};
+
+test('staleWhileRevalidate serves the stale entry and refreshes in the background', async () => {
+  const revalidated = Promise.withResolvers<RevalidateEvent>();
+  const client = setupVersions(['1.2.0', '1.3.0'], {
+    onRevalidate: revalidated.resolve,
+  });
+  setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+  await client.getPrompt('my-prompt');
+  setSystemTime(new Date('2026-01-01T00:00:05Z'));
+
+  const stale = await client.getPrompt('my-prompt');
+  expect(stale.version).toBe('1.2.0');
+
+  const event = await revalidated.promise;
+  expect(event).toEqual({
+    type: 'prompt',
+    id: 'my-prompt',
+    previousVersion: '1.2.0',
+    version: '1.3.0',
+  });
+
+  const fresh = await client.getPrompt('my-prompt');
+  expect(fresh.version).toBe('1.3.0');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
+
+test('staleWhileRevalidate deduplicates concurrent background refreshes', async () => {
+  const revalidated = Promise.withResolvers<RevalidateEvent>();
+  const client = setupVersions(['1.2.0', '1.3.0'], {
+    onRevalidate: revalidated.resolve,
+  });
+  setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+  await client.getPrompt('my-prompt');
+  setSystemTime(new Date('2026-01-01T00:00:05Z'));
+
+  const results = await Promise.all([
+    client.getPrompt('my-prompt'),
+    client.getPrompt('my-prompt'),
+    client.getPrompt('my-prompt'),
+  ]);
+  await revalidated.promise;
+
+  expect(results.map((r) => r.version)).toEqual(['1.2.0', '1.2.0', '1.2.0']);
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
+
+test('staleWhileRevalidate keeps serving the stale entry when the refresh fails', async () => {
+  const client = setupVersions(['1.2.0'], {});
+  setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  await client.getPrompt('my-prompt');
+
+  mockGlobalFetch(() =>
+    Promise.resolve(
+      new Response(JSON.stringify({ error: 'Down', code: 'BAD_REQUEST' }), {
+        status: 503,
+      }),
+    ),
+  );
+  setSystemTime(new Date('2026-01-01T00:00:05Z'));
+
+  const first = await client.getPrompt('my-prompt');
+  await Bun.sleep(0);
+  const second = await client.getPrompt('my-prompt');
+
+  expect(first.version).toBe('1.2.0');
+  expect(second.version).toBe('1.2.0');
+});
+
+test('staleWhileRevalidate applies to composers', async () => {
+  const revalidated = Promise.withResolvers<RevalidateEvent>();
+  let callIndex = 0;
+  mockGlobalFetch(() => {
+    const version = callIndex === 0 ? '1.0.0' : '1.1.0';
+    callIndex++;
+    return Promise.resolve(
+      new Response(JSON.stringify({ ...composerResponse, version })),
+    );
+  });
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    cache: {
+      ttl: 1000,
+      staleWhileRevalidate: true,
+      onRevalidate: revalidated.resolve,
+    },
+  });
+  setSystemTime(new Date('2026-01-01T00:00:00Z'));
+
+  await client.getComposer('comp-123');
+  setSystemTime(new Date('2026-01-01T00:00:05Z'));
+  const stale = await client.getComposer('comp-123');
+
+  expect(stale.version).toBe('1.0.0');
+  expect(await revalidated.promise).toEqual({
+    type: 'composer',
+    id: 'comp-123',
+    previousVersion: '1.0.0',
+    version: '1.1.0',
+  });
+});
+
+test('a custom store receives records with version metadata', async () => {
+  setSystemTime(new Date('2026-01-01T00:00:00Z'));
+  const store = createMemoryCacheStore(10);
+  const set = mock(store.set);
+  const client = setup({ ttl: 1000, staleTtl: 5000, store: { ...store, set } });
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt', { version: '1.0.0' });
+  setSystemTime();
+
+  expect(set).toHaveBeenNthCalledWith(
+    1,
+    'prompt:my-prompt@latest',
+    {
+      type: 'prompt',
+      version: '1.0.0',
+      body: promptResponse,
+      etag: undefined,
+      lastModified: undefined,
+      expiresAt: new Date('2026-01-01T00:00:01Z').getTime(),
+    },
+    6000,
+  );
+  expect(set.mock.calls[1]?.[1].expiresAt).toBeUndefined();
+  expect(set.mock.calls[1]?.[2]).toBeUndefined();
+});
+
+test('a persistent store serves entries to a fresh client', async () => {
+  const values = new Map<string, string>();
+  const store = createKeyValueCacheStore({
+    get: async (key) => values.get(key),
+    set: async (key, value) => values.set(key, value),
+    delete: async (key) => values.delete(key),
+  });
+
+  await setup({ store }).getPrompt('my-prompt');
+  const coldStart = setup({ store });
+  const result = await coldStart.getPrompt('my-prompt');
+
+  expect(globalThis.fetch).not.toHaveBeenCalled();
+  expect(result.version).toBe('1.0.0');
+});
+
+test('a failing store falls back to fetching from the API', async () => {
+  const client = setup({
+    store: {
+      get: () => Promise.reject(new Error('connection refused')),
+      set: () => Promise.reject(new Error('connection refused')),
+      delete: () => {},
+    },
+  });
+
+  const result = await client.getPrompt('my-prompt');
+
+  expect(result.version).toBe('1.0.0');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,192 @@
+import { afterAll, afterEach, expect, mock, test } from 'bun:test';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createCassetteFetch } from '../cassette.ts';
+import { fetchAllPrompts } from '../cli/generate.ts';
+import { createPromptlyClient } from '../client.ts';
+import type { FetchFn, PromptlyCassette, PromptResponse } from '../types.ts';
+import { captureError, stubModel } from './helpers.ts';
+
+const directory = join(
+  tmpdir(),
+  `promptly-cassette-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+);
+
+const originalRecord = process.env.PROMPTLY_RECORD;
+
+afterEach(() => {
+  if (originalRecord === undefined) {
+    delete process.env.PROMPTLY_RECORD;
+  } else {
+    process.env.PROMPTLY_RECORD = originalRecord;
+  }
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const promptResponse = (version: string): PromptResponse => ({
+  promptId: 'my-prompt',
+  promptName: 'My Prompt',
+  version,
+  systemMessage: 'System.',
+  userMessage: `Version ${version}.`,
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+});
+
+// Answers with an increasing version on every request
+const createApi = () => {
+  let version = 0;
+  return mock<FetchFn>(async () => {
+    version += 1;
+    return Response.json(promptResponse(`${version}.0.0`), {
+      headers: { ETag: `"v${version}"` },
+    });
+  });
+};
+
+const cassettePath = (name: string) => join(directory, `${name}.json`);
+
+const readCassette = async (path: string) =>
+  JSON.parse(await readFile(path, 'utf-8')) as PromptlyCassette;
+
+test('record mode saves every request and response', async () => {
+  const path = cassettePath('record');
+  const client = createPromptlyClient({
+    apiKey: 'secret-key',
+    baseUrl: 'https://api.example.com',
+    model: stubModel,
+    fetch: createApi(),
+    cassette: { path, mode: 'record' },
+  });
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt', { version: '1.0.0' });
+  const cassette = await readCassette(path);
+
+  expect(cassette.interactions).toEqual([
+    {
+      request: { method: 'GET', url: '/prompts/my-prompt' },
+      response: {
+        status: 200,
+        headers: {
+          'content-type': 'application/json;charset=utf-8',
+          etag: '"v1"',
+        },
+        body: promptResponse('1.0.0'),
+      },
+    },
+    {
+      request: { method: 'GET', url: '/prompts/my-prompt?version=1.0.0' },
+      response: expect.objectContaining({ body: promptResponse('2.0.0') }),
+    },
+  ]);
+  expect(JSON.stringify(cassette)).not.toContain('secret-key');
+});
+
+test('PROMPTLY_RECORD=1 selects record mode', async () => {
+  process.env.PROMPTLY_RECORD = '1';
+  const path = cassettePath('env');
+  const fetchImpl = createApi();
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+    cassette: path,
+  });
+
+  await client.getPrompt('my-prompt');
+
+  expect(fetchImpl).toHaveBeenCalledTimes(1);
+  expect((await readCassette(path)).interactions).toHaveLength(1);
+});
+
+test('replay mode serves recorded responses in order without an API key', async () => {
+  const path = cassettePath('replay');
+  const recorder = createCassetteFetch({ path, mode: 'record' }, createApi());
+  await recorder('https://api.promptlycms.com/prompts/my-prompt');
+  await recorder('https://api.promptlycms.com/prompts/my-prompt');
+  const fetchImpl = mock<FetchFn>();
+  const client = createPromptlyClient({
+    // A different base URL still matches; only the path and query are compared
+    baseUrl: 'http://127.0.0.1:4010',
+    model: stubModel,
+    fetch: fetchImpl,
+    cassette: path,
+  });
+
+  const first = await client.getPrompt('my-prompt');
+  const second = await client.getPrompt('my-prompt');
+  const third = await client.getPrompt('my-prompt');
+
+  expect([first.version, second.version, third.version]).toEqual([
+    '1.0.0',
+    '2.0.0',
+    '2.0.0',
+  ]);
+  expect(fetchImpl).not.toHaveBeenCalled();
+});
+
+test('replay mode fails loudly on unmatched requests', async () => {
+  const path = cassettePath('unmatched');
+  await mkdir(directory, { recursive: true });
+  await writeFile(
+    path,
+    JSON.stringify({ recordedAt: '', interactions: [] }),
+    'utf-8',
+  );
+  const client = createPromptlyClient({
+    model: stubModel,
+    cassette: path,
+    retry: true,
+  });
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(error.code).toBe('BAD_REQUEST');
+  expect(error.attempts).toBe(1);
+  expect(error.message).toContain(
+    `No recorded response for GET /prompts/my-prompt in cassette ${path}`,
+  );
+});
+
+test('replay mode reports a missing cassette file', async () => {
+  const client = createPromptlyClient({
+    model: stubModel,
+    cassette: cassettePath('missing'),
+  });
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(error.code).toBe('BAD_REQUEST');
+  expect(error.message).toContain('Record it with PROMPTLY_RECORD=1');
+});
+
+test('codegen list fetches record and replay through the cassette', async () => {
+  const path = cassettePath('codegen');
+  const api = mock<FetchFn>(async () =>
+    Response.json([promptResponse('1.0.0')]),
+  );
+
+  await fetchAllPrompts('test-key', undefined, {
+    fetch: createCassetteFetch({ path, mode: 'record' }, api),
+  });
+  const replayed = await fetchAllPrompts('test-key', undefined, {
+    fetch: createCassetteFetch({ path, mode: 'replay' }),
+  });
+
+  expect((await readCassette(path)).interactions[0]?.request).toEqual({
+    method: 'GET',
+    url: '/prompts?include_versions=true',
+  });
+  expect(replayed).toEqual([promptResponse('1.0.0')]);
+  expect(api).toHaveBeenCalledTimes(1);
+});
@@ -0,0 +1,111 @@
+import { afterAll, beforeEach, expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import type { ComposerId, PromptlyClientConfig } from '../types.ts';
+import {
+  mockComposerResponse,
+  mockPromptResponse,
+  stubModel,
+} from './helpers.ts';
+
+const LAST_MODIFIED = 'Wed, 01 Jan 2026 00:00:00 GMT';
+
+type ServerState = {
+  etag: string;
+  requests: Headers[];
+};
+
+const state: ServerState = { etag: '"v1"', requests: [] };
+
+// Local stand-in for the API that honours If-None-Match
+const server = Bun.serve({
+  port: 0,
+  fetch: (request) => {
+    state.requests.push(request.headers);
+    if (request.headers.get('If-None-Match') === state.etag) {
+      return new Response(null, { status: 304 });
+    }
+    const { pathname } = new URL(request.url);
+    const body = pathname.startsWith('/composers')
+      ? mockComposerResponse
+      : mockPromptResponse;
+    return Response.json(body, {
+      headers: { ETag: state.etag, 'Last-Modified': LAST_MODIFIED },
+    });
+  },
+});
+
+const setup = (config: PromptlyClientConfig = {}) =>
+  createPromptlyClient({
+    apiKey: 'test-key',
+    baseUrl: server.url.toString(),
+    model: stubModel,
+    ...config,
+  });
+
+beforeEach(() => {
+  state.etag = '"v1"';
+  state.requests = [];
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+test('refreshes send the stored ETag and Last-Modified', async () => {
+  const client = setup({ cache: true });
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt', { bypassCache: true });
+
+  expect(state.requests[0]?.get('If-None-Match')).toBeNull();
+  expect(state.requests[1]?.get('If-None-Match')).toBe('"v1"');
+  expect(state.requests[1]?.get('If-Modified-Since')).toBe(LAST_MODIFIED);
+});
+
+test('a 304 reuses the cached body', async () => {
+  const client = setup({ cache: { ttl: 0 } });
+
+  await client.getPrompt('my-prompt');
+  const refreshed = await client.getPrompt('my-prompt');
+
+  expect(state.requests).toHaveLength(2);
+  expect(refreshed.systemMessage).toBe('You are a helpful assistant.');
+  expect(refreshed.version).toBe('1.0.0');
+});
+
+test('a changed resource replaces the cached body and validators', async () => {
+  const client = setup({ cache: { ttl: 0 } });
+
+  await client.getPrompt('my-prompt');
+  state.etag = '"v2"';
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt');
+
+  expect(state.requests.map((h) => h.get('If-None-Match'))).toEqual([
+    null,
+    '"v1"',
+    '"v2"',
+  ]);
+});
+
+test('composer refreshes are conditional too', async () => {
+  const client = setup({ cache: { ttl: 0 } });
+
+  await client.getComposer('comp-1' as ComposerId);
+  const refreshed = await client.getComposer('comp-1' as ComposerId);
+
+  expect(state.requests[1]?.get('If-None-Match')).toBe('"v1"');
+  expect(refreshed.composerName).toBe('Test Composer');
+});
+
+test('requests are unconditional without a cache', async () => {
+  const client = setup();
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt');
+
+  expect(state.requests.map((h) => h.get('If-None-Match'))).toEqual([
+    null,
+    null,
+  ]);
+});
@@ -0,0 +1,136 @@
+import { expect, mock, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import type { ComposerId, FetchFn } from '../types.ts';
+import {
+  captureError,
+  hangingFetch,
+  jsonFetch,
+  mockComposerResponse,
+  mockPromptResponse,
+  stubModel,
+} from './helpers.ts';
+
+const waitForCalls = async (fetchImpl: ReturnType<typeof mock<FetchFn>>) => {
+  while (fetchImpl.mock.calls.length === 0) {
+    await Bun.sleep(1);
+  }
+  return fetchImpl.mock.calls;
+};
+
+test('concurrent getPrompt() calls for the same prompt share one request', async () => {
+  const fetchImpl = jsonFetch(mockPromptResponse);
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+  });
+
+  const results = await Promise.all(
+    Array.from({ length: 5 }, () => client.getPrompt('my-prompt')),
+  );
+
+  expect(fetchImpl).toHaveBeenCalledTimes(1);
+  expect(results.map((r) => r.version)).toEqual(Array(5).fill('1.0.0'));
+});
+
+test('getPrompts() fetches duplicate entries once', async () => {
+  const fetchImpl = jsonFetch(mockPromptResponse);
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+  });
+
+  await client.getPrompts([
+    { promptId: 'a' },
+    { promptId: 'a' },
+    { promptId: 'a', version: '2.0.0' },
+    { promptId: 'b' },
+  ]);
+
+  expect(fetchImpl.mock.calls.map(([url]) => url).sort()).toEqual([
+    'https://api.promptlycms.com/prompts/a',
+    'https://api.promptlycms.com/prompts/a?version=2.0.0',
+    'https://api.promptlycms.com/prompts/b',
+  ]);
+});
+
+test('concurrent getComposer() calls for the same composer share one request', async () => {
+  const fetchImpl = jsonFetch(mockComposerResponse);
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+  });
+
+  await Promise.all([
+    client.getComposer('comp-1' as ComposerId),
+    client.getComposer('comp-1' as ComposerId),
+  ]);
+
+  expect(fetchImpl).toHaveBeenCalledTimes(1);
+});
+
+test('sequential calls without a cache each fetch', async () => {
+  const fetchImpl = jsonFetch(mockPromptResponse);
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+  });
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt');
+
+  expect(fetchImpl).toHaveBeenCalledTimes(2);
+});
+
+test('a failed shared request rejects every caller', async () => {
+  const fetchImpl = mock<FetchFn>(() =>
+    Promise.resolve(
+      new Response(
+        JSON.stringify({ error: 'Prompt not found', code: 'NOT_FOUND' }),
+        { status: 404 },
+      ),
+    ),
+  );
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+  });
+
+  const errors = await Promise.all([
+    captureError(client.getPrompt('missing')),
+    captureError(client.getPrompt('missing')),
+  ]);
+
+  expect(fetchImpl).toHaveBeenCalledTimes(1);
+  expect(errors.map((e) => e.code)).toEqual(['NOT_FOUND', 'NOT_FOUND']);
+});
+
+test('one caller aborting leaves the shared request running for the others', async () => {
+  const fetchImpl = hangingFetch();
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+  });
+  const first = new AbortController();
+  const second = new AbortController();
+
+  const firstPending = client.getPrompt('my-prompt', { signal: first.signal });
+  const secondPending = client.getPrompt('my-prompt', {
+    signal: second.signal,
+  });
+  const [call] = await waitForCalls(fetchImpl);
+  const sharedSignal = call?.[1]?.signal;
+
+  first.abort();
+  expect((await captureError(firstPending)).code).toBe('ABORTED');
+  expect(sharedSignal?.aborted).toBe(false);
+
+  second.abort();
+  expect((await captureError(secondPending)).code).toBe('ABORTED');
+  expect(sharedSignal?.aborted).toBe(true);
+});
@@ -0,0 +1,149 @@
+import { afterEach, expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import { PromptlyError } from '../errors.ts';
+import type { ComposerId, PromptlySnapshot, PromptResponse } from '../types.ts';
+import { mockGlobalFetch, restoreFetch, stubModel } from './helpers.ts';
+
+const snapshotPrompt: PromptResponse = {
+  promptId: 'my-prompt',
+  promptName: 'My Prompt',
+  version: '1.1.0',
+  systemMessage: 'You are a helpful assistant.',
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  userMessage: 'Hello ${name}.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+  publishedVersions: [
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    { version: '1.1.0', userMessage: 'Hello ${name}.' },
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    { version: '1.0.0', userMessage: 'Hi ${name}.' },
+  ],
+};
+
+const snapshot: PromptlySnapshot = {
+  pulledAt: '2026-01-01T00:00:00.000Z',
+  prompts: [snapshotPrompt],
+  composers: [
+    {
+      composerId: 'my-composer',
+      composerName: 'My Composer',
+      version: '2.0.0',
+      config: { schema: [], inputData: null, inputDataRootName: null },
+      segments: [{ type: 'static', content: '<p>Hello {{name}}</p>' }],
+    },
+  ],
+};
+
+const setupFailure = (failure: () => Promise<Response>) => {
+  mockGlobalFetch(failure);
+  return createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fallback: snapshot,
+  });
+};
+
+const errorResponse = (status: number, code: string) => () =>
+  Promise.resolve(
+    new Response(JSON.stringify({ error: 'Failed', code }), { status }),
+  );
+
+afterEach(() => {
+  restoreFetch();
+});
+
+test('getPrompt() serves the snapshot on network errors', async () => {
+  const client = setupFailure(() =>
+    Promise.reject(new TypeError('fetch failed')),
+  );
+
+  const result = await client.getPrompt('my-prompt');
+
+  expect(result.version).toBe('1.1.0');
+  expect(result.userMessage({ name: 'Alice' })).toBe('Hello Alice.');
+});
+
+test('getPrompt() serves the snapshot on 5xx and 429 responses', async () => {
+  for (const [status, code] of [
+    [503, 'BAD_REQUEST'],
+    [429, 'USAGE_LIMIT_EXCEEDED'],
+  ] as const) {
+    const client = setupFailure(errorResponse(status, code));
+    const result = await client.getPrompt('my-prompt');
+    expect(result.promptId).toBe('my-prompt');
+  }
+});
+
+test('getPrompt() serves a pinned version only when the snapshot holds it', async () => {
+  const client = setupFailure(errorResponse(500, 'BAD_REQUEST'));
+
+  const result = await client.getPrompt('my-prompt', { version: '1.1.0' });
+  const error = await client
+    .getPrompt('my-prompt', { version: '1.0.0' })
+    .catch((err: PromptlyError) => err);
+
+  expect(result.version).toBe('1.1.0');
+  expect(error).toBeInstanceOf(PromptlyError);
+  expect(error).toMatchObject({ status: 500 });
+});
+
+test('getPrompt() rethrows when the snapshot has no matching prompt', async () => {
+  const client = setupFailure(errorResponse(500, 'BAD_REQUEST'));
+
+  await expect(client.getPrompt('other-prompt')).rejects.toBeInstanceOf(
+    PromptlyError,
+  );
+  await expect(
+    client.getPrompt('my-prompt', { version: '0.1.0' }),
+  ).rejects.toBeInstanceOf(PromptlyError);
+});
+
+test('getPrompt() does not fall back on client errors', async () => {
+  const client = setupFailure(errorResponse(404, 'NOT_FOUND'));
+
+  try {
+    await client.getPrompt('my-prompt');
+    expect(true).toBe(false);
+  } catch (err) {
+    expect((err as PromptlyError).code).toBe('NOT_FOUND');
+  }
+});
+
+test('getPrompt() does not fall back when a hook throws', async () => {
+  const failure = new Error('No signing key');
+  mockGlobalFetch(() => Promise.reject(new TypeError('fetch failed')));
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fallback: snapshot,
+    hooks: {
+      onRequest: () => {
+        throw failure;
+      },
+    },
+  });
+
+  await expect(client.getPrompt('my-prompt')).rejects.toBe(failure);
+  expect(globalThis.fetch).not.toHaveBeenCalled();
+});
+
+test('getComposer() serves the snapshot on network errors', async () => {
+  const client = setupFailure(() =>
+    Promise.reject(new TypeError('fetch failed')),
+  );
+
+  const result = await client.getComposer('my-composer' as ComposerId, {
+    input: { name: 'Alice' },
+  });
+
+  expect(result.version).toBe('2.0.0');
+  expect(result.formatComposer({} as Record<string, string>)).toBe(
+    '<p>Hello Alice</p>',
+  );
+});
@@ -0,0 +1,144 @@
+import { expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import { interpolate, interpolateStaticSegment } from '../interpolate.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  PromptlySource,
+  PromptResponse,
+} from '../types.ts';
+import { captureSyncError, stubModel } from './helpers.ts';
+
+test('interpolate() applies the built-in filters', () => {
+  const result = interpolate(
+    [
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+      '${name | upper} ${name|lower} [${padded | trim}]',
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+      '${items | join(" / ")} ${items | join}',
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+      '${payload | json} ${createdAt | date("yyyy-MM-dd HH:mm:ss")}',
+    ].join('\n'),
+    {
+      name: 'Ada',
+      padded: '  x  ',
+      items: ['tea', 'cake'],
+      payload: { ok: true },
+      createdAt: new Date('2024-03-09T07:05:01Z'),
+    },
+  );
+
+  expect(result).toBe(
+    [
+      'ADA ada [x]',
+      'tea / cake tea, cake',
+      '{"ok":true} 2024-03-09 07:05:01',
+    ].join('\n'),
+  );
+});
+
+test('filters chain left to right and accept quoted separators', () => {
+  const result = interpolate(
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    '${tags | join(" | ") | upper} on ${day | date}',
+    { tags: ['a', 'b'], day: '2024-12-31T23:00:00Z' },
+  );
+
+  expect(result).toBe('A | B on 2024-12-31');
+});
+
+test('json filter takes an indent and works on nested paths', () => {
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  const result = interpolate('${order.items | json(2)}', {
+    order: { items: [1] },
+  });
+
+  expect(result).toBe('[\n  1\n]');
+});
+
+test('custom filters receive parsed arguments and override built-ins', () => {
+  const result = interpolate(
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    '${price | currency("EUR", 2)} ${name | upper}',
+    { price: 9.5, name: 'ada' },
+    {
+      filters: {
+        currency: (value, code, digits) =>
+          `${Number(value).toFixed(Number(digits))} ${code}`,
+        upper: (value) => `<${String(value)}>`,
+      },
+    },
+  );
+
+  expect(result).toBe('9.50 EUR <ada>');
+});
+
+test('unknown filters leave the placeholder, or throw when strict', () => {
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  const template = 'Hi ${name | shout}';
+
+  const error = captureSyncError(() =>
+    interpolate(template, { name: 'Ada' }, { strict: true }),
+  );
+
+  expect(interpolate(template, { name: 'Ada' })).toBe(template);
+  expect(error.code).toBe('UNKNOWN_FILTER');
+  expect(error.message).toBe('Unknown filters for template: shout');
+});
+
+test('interpolateStaticSegment() applies filters in mustaches', () => {
+  const result = interpolateStaticSegment('<p>{{name | upper}}</p>', {
+    name: 'Ada',
+  });
+
+  expect(result).toBe('<p>ADA</p>');
+});
+
+test('the client applies its filter registry to prompts and composers', async () => {
+  const prompt: PromptResponse = {
+    promptId: 'digest',
+    promptName: 'Digest',
+    version: '1.0.0',
+    systemMessage: '',
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    userMessage: 'Summarise ${topics | bullets}',
+    config: {
+      model: 'claude-haiku-4.5',
+      temperature: 0.7,
+      schema: [],
+      inputData: null,
+      inputDataRootName: null,
+    },
+  };
+  const composer: ComposerResponse = {
+    composerId: 'digest',
+    composerName: 'Digest',
+    version: '1.0.0',
+    config: { schema: [], inputData: null, inputDataRootName: null },
+    segments: [{ type: 'static', content: '<ul>{{topics | bullets}}</ul>' }],
+  };
+  const source: PromptlySource = {
+    getPrompt: async () => prompt,
+    getComposer: async () => composer,
+    listPrompts: async () => [prompt],
+    listComposers: async () => [composer],
+  };
+  const client = createPromptlyClient({
+    source,
+    model: stubModel,
+    filters: {
+      bullets: (value) =>
+        (value as string[]).map((topic) => `- ${topic}`).join(' '),
+    },
+  });
+
+  const { userMessage } = await client.getPrompt('digest');
+  const { formatComposer } = await client.getComposer('digest' as ComposerId, {
+    input: { topics: ['AI', 'Rust'] },
+  });
+
+  expect(userMessage({ topics: ['AI', 'Rust'] })).toBe('Summarise - AI - Rust');
+  expect(formatComposer({} as Record<string, string>)).toBe(
+    '<ul>- AI - Rust</ul>',
+  );
+});
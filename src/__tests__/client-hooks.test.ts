@@ -0,0 +1,222 @@
+import { expect, mock, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import { PromptlyError } from '../errors.ts';
+import type {
+  ComposerId,
+  ErrorHookContext,
+  ResponseHookContext,
+} from '../types.ts';
+import {
+  jsonFetch,
+  mockComposerResponse,
+  mockPromptResponse,
+  stubModel,
+} from './helpers.ts';
+
+test('onRequest receives the target, URL and headers', async () => {
+  const onRequest = mock(() => {});
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(mockPromptResponse),
+    headers: { 'X-Team': 'search' },
+    hooks: { onRequest },
+  });
+
+  await client.getPrompt('my-prompt', { version: '1.0.0' });
+
+  expect(onRequest).toHaveBeenCalledTimes(1);
+  expect(onRequest).toHaveBeenCalledWith({
+    type: 'prompt',
+    id: 'my-prompt',
+    version: '1.0.0',
+    url: new URL('https://api.promptlycms.com/prompts/my-prompt?version=1.0.0'),
+    headers: { 'X-Team': 'search', Authorization: 'Bearer test-key' },
+  });
+});
+
+test('onRequest can mutate the URL and headers before the request is sent', async () => {
+  const fetchImpl = jsonFetch(mockPromptResponse);
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+    hooks: {
+      onRequest: ({ url, headers }) => {
+        url.searchParams.set('region', 'eu');
+        headers['X-Request-Id'] = 'req-1';
+      },
+    },
+  });
+
+  await client.getPrompt('my-prompt');
+
+  const [url, init] = fetchImpl.mock.calls[0] ?? [];
+  expect(url).toBe('https://api.promptlycms.com/prompts/my-prompt?region=eu');
+  expect(init?.headers).toEqual({
+    Authorization: 'Bearer test-key',
+    'X-Request-Id': 'req-1',
+  });
+});
+
+test('an error thrown by onRequest is neither retried nor sent', async () => {
+  const fetchImpl = jsonFetch(mockPromptResponse);
+  const failure = new Error('No signing key');
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+    retry: { baseDelayMs: 0 },
+    hooks: {
+      onRequest: () => {
+        throw failure;
+      },
+    },
+  });
+
+  await expect(client.getPrompt('my-prompt')).rejects.toBe(failure);
+  expect(fetchImpl).not.toHaveBeenCalled();
+});
+
+test('onResponse reports latency and cache status for each lookup', async () => {
+  const events: ResponseHookContext[] = [];
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(mockPromptResponse),
+    cache: true,
+    hooks: { onResponse: (context) => void events.push(context) },
+  });
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt', { bypassCache: true });
+
+  expect(events.map((e) => e.cacheStatus)).toEqual(['miss', 'hit', 'bypass']);
+  expect(events[0]).toMatchObject({
+    type: 'prompt',
+    id: 'my-prompt',
+    response: mockPromptResponse,
+  });
+  expect(events[0]?.latencyMs).toBeGreaterThanOrEqual(0);
+});
+
+test('onResponse reports disabled without a cache and fallback from the snapshot', async () => {
+  const events: ResponseHookContext[] = [];
+  const onResponse = (context: ResponseHookContext) => {
+    events.push(context);
+  };
+
+  const live = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(mockPromptResponse),
+    hooks: { onResponse },
+  });
+  await live.getPrompt('test-id-123');
+
+  const offline = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: () => Promise.reject(new TypeError('fetch failed')),
+    fallback: {
+      pulledAt: '2026-01-01T00:00:00.000Z',
+      prompts: [mockPromptResponse],
+      composers: [],
+    },
+    hooks: { onResponse },
+  });
+  await offline.getPrompt('test-id-123');
+
+  expect(events.map((e) => e.cacheStatus)).toEqual(['disabled', 'fallback']);
+});
+
+test('onResponse can transform the parsed response without touching the cache', async () => {
+  let transform = true;
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(mockPromptResponse),
+    cache: true,
+    hooks: {
+      onResponse: ({ type, response }) => {
+        if (!transform || type !== 'prompt') {
+          return;
+        }
+        return { ...response, systemMessage: 'Be brief.' };
+      },
+    },
+  });
+
+  const transformed = await client.getPrompt('my-prompt');
+  transform = false;
+  const cached = await client.getPrompt('my-prompt');
+
+  expect(transformed.systemMessage).toBe('Be brief.');
+  expect(cached.systemMessage).toBe('You are a helpful assistant.');
+});
+
+test('onResponse and onRequest run for composers', async () => {
+  const onRequest = mock(() => {});
+  const onResponse = mock(() => {});
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(mockComposerResponse),
+    hooks: { onRequest, onResponse },
+  });
+
+  await client.getComposer('comp-1' as ComposerId);
+
+  expect(onRequest).toHaveBeenCalledWith(
+    expect.objectContaining({ type: 'composer', id: 'comp-1' }),
+  );
+  expect(onResponse).toHaveBeenCalledWith(
+    expect.objectContaining({
+      type: 'composer',
+      id: 'comp-1',
+      response: mockComposerResponse,
+      cacheStatus: 'disabled',
+    }),
+  );
+});
+
+test('onError receives the final error and the original error is rethrown', async () => {
+  const errors: ErrorHookContext[] = [];
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: () =>
+      Promise.resolve(
+        new Response(
+          JSON.stringify({ error: 'Prompt not found', code: 'NOT_FOUND' }),
+          { status: 404 },
+        ),
+      ),
+    hooks: { onError: (context) => void errors.push(context) },
+  });
+
+  const error = await client.getPrompt('missing').catch((e: unknown) => e);
+
+  expect(error).toBeInstanceOf(PromptlyError);
+  expect(errors).toHaveLength(1);
+  expect(errors[0]).toMatchObject({ type: 'prompt', id: 'missing', error });
+});
+
+test('onModelResolved runs after each model resolution', async () => {
+  const onModelResolved = mock(() => {});
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(mockPromptResponse),
+    hooks: { onModelResolved },
+  });
+
+  const result = await client.getPrompt('my-prompt');
+
+  expect(onModelResolved).toHaveBeenCalledWith({
+    modelId: 'claude-haiku-4.5',
+    model: result.model,
+    latencyMs: expect.any(Number),
+  });
+});
@@ -0,0 +1,127 @@
+import { expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import { interpolate, interpolateStaticSegment } from '../interpolate.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  PromptlySource,
+  PromptResponse,
+} from '../types.ts';
+import { captureSyncError, stubModel } from './helpers.ts';
+
+const order = {
+  id: 42,
+  items: [
+    { sku: 'A-1', qty: 2 },
+    { sku: 'B-7', qty: 1 },
+  ],
+};
+
+test('interpolate() resolves dotted paths and array indexes', () => {
+  const result = interpolate(
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    'Order ${order.id}: ${order.items[1].sku} x${order.items[1].qty}',
+    { order },
+  );
+
+  expect(result).toBe('Order 42: B-7 x1');
+});
+
+test('interpolate() renders objects and arrays as JSON', () => {
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  const result = interpolate('${order.items[0]} ${tags}', {
+    order,
+    tags: ['a', 'b'],
+  });
+
+  expect(result).toBe('{"sku":"A-1","qty":2} ["a","b"]');
+});
+
+test('interpolate() prefers a flat key that contains dots', () => {
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  const result = interpolate('${user.name}', {
+    'user.name': 'Flat',
+    user: { name: 'Nested' },
+  });
+
+  expect(result).toBe('Flat');
+});
+
+test('interpolate() leaves unresolved paths in place', () => {
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  const template = '${order.items[5].sku} ${order.id.value} ${user.name}';
+
+  expect(interpolate(template, { order })).toBe(template);
+});
+
+test('interpolateStaticSegment() resolves paths in spans and mustaches', () => {
+  const content =
+    '<p><span data-variable-ref data-field-path="order.items[0].sku"></span> / {{order.items[1].sku}} / {{order.missing}}</p>';
+
+  expect(interpolateStaticSegment(content, { order })).toBe(
+    '<p>A-1 / B-7 / </p>',
+  );
+});
+
+test('strict mode reports missing paths and counts the root as used', () => {
+  const error = captureSyncError(() =>
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    interpolate('${order.items[9].sku}', { order }, { strict: true }),
+  );
+  const unused = captureSyncError(() =>
+    interpolate(
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+      '${order.id}',
+      { order, extra: true },
+      { strict: { unused: 'throw' } },
+    ),
+  );
+
+  expect(error.missingVariables).toEqual(['order.items[9].sku']);
+  expect(unused.unusedVariables).toEqual(['extra']);
+});
+
+test('getPrompt() and getComposer() resolve nested input', async () => {
+  const prompt: PromptResponse = {
+    promptId: 'receipt',
+    promptName: 'Receipt',
+    version: '1.0.0',
+    systemMessage: '',
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    userMessage: 'Summarise ${order.items[0].sku}.',
+    config: {
+      model: 'claude-haiku-4.5',
+      temperature: 0.7,
+      schema: [],
+      inputData: null,
+      inputDataRootName: null,
+    },
+  };
+  const composer: ComposerResponse = {
+    composerId: 'receipt',
+    composerName: 'Receipt',
+    version: '1.0.0',
+    config: { schema: [], inputData: null, inputDataRootName: null },
+    segments: [{ type: 'static', content: '<h1>Order {{order.id}}</h1>' }],
+  };
+  const source: PromptlySource = {
+    getPrompt: async () => prompt,
+    getComposer: async () => composer,
+    listPrompts: async () => [prompt],
+    listComposers: async () => [composer],
+  };
+  const client = createPromptlyClient({ source, model: stubModel });
+
+  const { userMessage } = await client.getPrompt('receipt');
+  const { formatComposer } = await client.getComposer(
+    'comp-123' as ComposerId,
+    {
+      input: { order },
+    },
+  );
+
+  expect(userMessage({ order })).toBe('Summarise A-1.');
+  expect(formatComposer({} as Record<string, string>)).toBe(
+    '<h1>Order 42</h1>',
+  );
+});
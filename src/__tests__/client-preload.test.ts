@@ -0,0 +1,143 @@
+import { expect, mock, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import type { PromptlyError } from '../errors.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  FetchFn,
+  PromptlyClientConfig,
+  PromptResponse,
+} from '../types.ts';
+import { stubModel } from './helpers.ts';
+
+const promptResponse = (promptId: string): PromptResponse => ({
+  promptId,
+  promptName: 'Test Prompt',
+  version: '1.0.0',
+  systemMessage: 'You are a helpful assistant.',
+  userMessage: 'Hello.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+});
+
+const composerResponse = (composerId: string): ComposerResponse => ({
+  composerId,
+  composerName: 'Test Composer',
+  version: '1.0.0',
+  config: { schema: [], inputData: null, inputDataRootName: null },
+  segments: [{ type: 'static', content: '<p>Intro</p>' }],
+});
+
+const notFound = () =>
+  Response.json(
+    { error: 'Prompt not found', code: 'NOT_FOUND' },
+    { status: 404 },
+  );
+
+// Serves every ID except `missing`, plus the two list endpoints
+const apiFetch = () =>
+  mock<FetchFn>(async (input) => {
+    const { pathname } = new URL(input);
+    const [, collection, id] = pathname.split('/');
+    if (collection === 'prompts' && !id) {
+      return Response.json([promptResponse('a'), promptResponse('b')]);
+    }
+    if (collection === 'composers' && !id) {
+      return Response.json([composerResponse('comp-1')]);
+    }
+    if (!id || id === 'missing') {
+      return notFound();
+    }
+    return Response.json(
+      collection === 'prompts' ? promptResponse(id) : composerResponse(id),
+    );
+  });
+
+const setup = (config: PromptlyClientConfig = {}) => {
+  const fetchImpl = apiFetch();
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+    cache: true,
+    ...config,
+  });
+  return { client, fetchImpl };
+};
+
+test('preload() fetches every entry into the cache', async () => {
+  const { client, fetchImpl } = setup();
+
+  const report = await client.preload({
+    prompts: ['a', { promptId: 'b', version: '1.0.0' }],
+    composers: ['comp-1' as ComposerId],
+  });
+  await client.getPrompt('a');
+  await client.getPrompt('b', { version: '1.0.0' });
+  await client.getComposer('comp-1' as ComposerId);
+
+  expect(fetchImpl).toHaveBeenCalledTimes(3);
+  expect(report.failed).toEqual([]);
+  expect(report.loaded).toEqual([
+    { type: 'prompt', id: 'a' },
+    { type: 'prompt', id: 'b', version: '1.0.0' },
+    { type: 'composer', id: 'comp-1' },
+  ]);
+});
+
+test('preload() reports failures instead of throwing', async () => {
+  const { client } = setup();
+
+  const report = await client.preload({
+    prompts: ['a', 'missing'],
+    composers: ['missing' as ComposerId],
+  });
+
+  expect(report.loaded).toEqual([{ type: 'prompt', id: 'a' }]);
+  expect(report.failed.map(({ type, id }) => ({ type, id }))).toEqual([
+    { type: 'prompt', id: 'missing' },
+    { type: 'composer', id: 'missing' },
+  ]);
+  expect((report.failed[0]?.error as PromptlyError).code).toBe('NOT_FOUND');
+});
+
+test('preloadAll() caches every prompt and composer from the list endpoints', async () => {
+  const { client, fetchImpl } = setup();
+
+  const report = await client.preloadAll();
+  await client.getPrompt('a');
+  await client.getPrompt('b');
+  await client.getComposer('comp-1' as ComposerId);
+
+  expect(fetchImpl.mock.calls.map(([url]) => url).sort()).toEqual([
+    'https://api.promptlycms.com/composers?include_versions=true',
+    'https://api.promptlycms.com/prompts?include_versions=true',
+  ]);
+  expect(report).toEqual({
+    loaded: [
+      { type: 'prompt', id: 'a' },
+      { type: 'prompt', id: 'b' },
+      { type: 'composer', id: 'comp-1' },
+    ],
+    failed: [],
+  });
+});
+
+test('preloadAll() rejects when a list endpoint fails', async () => {
+  const { client } = setup({
+    fetch: async () =>
+      Response.json(
+        { error: 'Invalid API key', code: 'INVALID_KEY' },
+        { status: 401 },
+      ),
+  });
+
+  const error = (await client.preloadAll().catch((e) => e)) as PromptlyError;
+
+  expect(error.code).toBe('INVALID_KEY');
+});
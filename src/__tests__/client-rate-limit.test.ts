@@ -0,0 +1,131 @@
+import { afterEach, expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import type { PromptlyError } from '../errors.ts';
+import type { RateLimitEvent } from '../types.ts';
+import {
+  mockGlobalFetch,
+  mockPromptResponse,
+  restoreFetch,
+  stubModel,
+} from './helpers.ts';
+
+const RESET = 1767225600;
+
+const rateLimitHeaders = (remaining: number, limit = 5000) => ({
+  'X-RateLimit-Limit': String(limit),
+  'X-RateLimit-Remaining': String(remaining),
+  'X-RateLimit-Reset': String(RESET),
+});
+
+// Each call consumes the next remaining count; the last one repeats
+const setupRemaining = (remaining: number[]) => {
+  let callIndex = 0;
+  mockGlobalFetch(() => {
+    const next = remaining[Math.min(callIndex, remaining.length - 1)] ?? 0;
+    callIndex++;
+    return Promise.resolve(
+      new Response(JSON.stringify(mockPromptResponse), {
+        headers: rateLimitHeaders(next),
+      }),
+    );
+  });
+};
+
+afterEach(() => {
+  restoreFetch();
+});
+
+test('getUsage() returns undefined before any request', () => {
+  const client = createPromptlyClient({ apiKey: 'test-key' });
+
+  expect(client.getUsage()).toBeUndefined();
+});
+
+test('getUsage() reflects the most recent X-RateLimit headers', async () => {
+  setupRemaining([4832, 4831]);
+  const client = createPromptlyClient({ apiKey: 'test-key', model: stubModel });
+
+  await client.getPrompt('my-prompt');
+  await client.getPrompt('my-prompt');
+
+  expect(client.getUsage()).toEqual({
+    limit: 5000,
+    remaining: 4831,
+    resetAt: new Date(RESET * 1000),
+  });
+});
+
+test('getUsage() ignores responses without rate-limit headers', async () => {
+  setupRemaining([4000]);
+  const client = createPromptlyClient({ apiKey: 'test-key', model: stubModel });
+  await client.getPrompt('my-prompt');
+
+  mockGlobalFetch(() =>
+    Promise.resolve(new Response(JSON.stringify(mockPromptResponse))),
+  );
+  await client.getPrompt('my-prompt');
+
+  expect(client.getUsage()?.remaining).toBe(4000);
+});
+
+test('onRateLimit fires once per threshold as remaining quota drops', async () => {
+  setupRemaining([1100, 1000, 990, 500, 499, 100]);
+  const events: RateLimitEvent[] = [];
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    rateLimitThresholds: [0.2, 0.1],
+    onRateLimit: (event) => events.push(event),
+  });
+
+  for (let i = 0; i < 6; i++) {
+    await client.getPrompt('my-prompt');
+  }
+
+  expect(events.map((e) => [e.threshold, e.remaining])).toEqual([
+    [0.2, 1000],
+    [0.1, 500],
+  ]);
+  expect(events[0]?.resetAt).toEqual(new Date(RESET * 1000));
+});
+
+test('onRateLimit fires again after the quota is replenished', async () => {
+  setupRemaining([200, 5000, 200]);
+  const events: RateLimitEvent[] = [];
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    onRateLimit: (event) => events.push(event),
+  });
+
+  for (let i = 0; i < 3; i++) {
+    await client.getPrompt('my-prompt');
+  }
+
+  expect(events.map((e) => e.threshold)).toEqual([0.05, 0.05]);
+});
+
+test('USAGE_LIMIT_EXCEEDED errors carry a parsed resetAt', async () => {
+  mockGlobalFetch(() =>
+    Promise.resolve(
+      new Response(
+        JSON.stringify({
+          error: 'Usage limit exceeded',
+          code: 'USAGE_LIMIT_EXCEEDED',
+        }),
+        { status: 429, headers: rateLimitHeaders(0) },
+      ),
+    ),
+  );
+  const client = createPromptlyClient({ apiKey: 'test-key', model: stubModel });
+
+  try {
+    await client.getPrompt('my-prompt');
+    expect(true).toBe(false);
+  } catch (err) {
+    const e = err as PromptlyError;
+    expect(e.code).toBe('USAGE_LIMIT_EXCEEDED');
+    expect(e.resetAt).toEqual(new Date(RESET * 1000));
+  }
+  expect(client.getUsage()?.remaining).toBe(0);
+});
@@ -0,0 +1,191 @@
+import { afterEach, expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import { PromptlyError } from '../errors.ts';
+import type { RetryOptions } from '../types.ts';
+import {
+  captureError,
+  mockGlobalFetch,
+  mockPromptResponse,
+  restoreFetch,
+  stubModel,
+} from './helpers.ts';
+
+const ok = () => new Response(JSON.stringify(mockPromptResponse));
+
+const failure = (
+  status: number,
+  code: string,
+  headers: Record<string, string> = {},
+) =>
+  new Response(JSON.stringify({ error: 'Failed', code }), { status, headers });
+
+// Each call consumes the next response; the last one repeats
+const setup = (
+  responses: (() => Response | Promise<Response>)[],
+  retry: boolean | RetryOptions = { baseDelayMs: 0, jitter: false },
+) => {
+  let callIndex = 0;
+  mockGlobalFetch(async () => {
+    const next = responses[Math.min(callIndex, responses.length - 1)];
+    callIndex++;
+    if (!next) {
+      throw new Error('No response configured');
+    }
+    return next();
+  });
+
+  return createPromptlyClient({ apiKey: 'test-key', model: stubModel, retry });
+};
+
+afterEach(() => {
+  restoreFetch();
+});
+
+test('getPrompt() does not retry unless retry is configured', async () => {
+  const client = setup([() => failure(503, 'BAD_REQUEST'), ok], false);
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  expect(error.attempts).toBe(1);
+});
+
+test('getPrompt() retries 5xx responses until one succeeds', async () => {
+  const client = setup([
+    () => failure(500, 'BAD_REQUEST'),
+    () => failure(502, 'BAD_REQUEST'),
+    ok,
+  ]);
+
+  const result = await client.getPrompt('my-prompt');
+
+  expect(result.promptId).toBe('test-id-123');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+});
+
+test('getPrompt() retries network errors', async () => {
+  const client = setup([
+    () => Promise.reject(new TypeError('fetch failed')),
+    ok,
+  ]);
+
+  await client.getPrompt('my-prompt');
+
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
+
+test('getPrompt() records the attempt count on the final error', async () => {
+  const client = setup([() => failure(503, 'BAD_REQUEST')], {
+    maxAttempts: 4,
+    baseDelayMs: 0,
+  });
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(error).toBeInstanceOf(PromptlyError);
+  expect(error.status).toBe(503);
+  expect(error.attempts).toBe(4);
+  expect(globalThis.fetch).toHaveBeenCalledTimes(4);
+});
+
+test('getPrompt() wraps network errors once retries run out', async () => {
+  const cause = new TypeError('fetch failed');
+  const client = setup([() => Promise.reject(cause)], {
+    maxAttempts: 3,
+    baseDelayMs: 0,
+  });
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(error).toBeInstanceOf(PromptlyError);
+  expect(error.code).toBe('NETWORK_ERROR');
+  expect(error.status).toBe(0);
+  expect(error.attempts).toBe(3);
+  expect(error.cause).toBe(cause);
+  expect(globalThis.fetch).toHaveBeenCalledTimes(3);
+});
+
+test('getPrompt() does not retry errors that are not from the network', async () => {
+  const client = setup([() => new Response('<html>Maintenance</html>'), ok]);
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(error).toBeInstanceOf(SyntaxError);
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+});
+
+test('getPrompt() never retries NOT_FOUND, VERSION_NOT_FOUND, INVALID_KEY or UNAUTHORIZED', async () => {
+  for (const [status, code] of [
+    [404, 'NOT_FOUND'],
+    [404, 'VERSION_NOT_FOUND'],
+    [401, 'INVALID_KEY'],
+    [503, 'UNAUTHORIZED'],
+  ] as const) {
+    const client = setup([() => failure(status, code)], {
+      baseDelayMs: 0,
+      retryOn: [401, 404, 503],
+    });
+
+    const error = await captureError(client.getPrompt('my-prompt'));
+
+    expect(error.code).toBe(code);
+    expect(error.attempts).toBe(1);
+    expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+  }
+});
+
+test('getPrompt() only retries the configured statuses', async () => {
+  const client = setup([() => failure(500, 'BAD_REQUEST'), ok], {
+    baseDelayMs: 0,
+    retryOn: [503],
+  });
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(error.attempts).toBe(1);
+});
+
+test('getPrompt() honours Retry-After on 429', async () => {
+  const client = setup(
+    [() => failure(429, 'USAGE_LIMIT_EXCEEDED', { 'Retry-After': '0.05' }), ok],
+    { baseDelayMs: 0, jitter: false },
+  );
+
+  const started = performance.now();
+  await client.getPrompt('my-prompt');
+
+  expect(performance.now() - started).toBeGreaterThanOrEqual(40);
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
+
+test('getPrompt() gives up when Retry-After exceeds maxDelayMs', async () => {
+  const client = setup(
+    [() => failure(429, 'USAGE_LIMIT_EXCEEDED', { 'Retry-After': '3600' }), ok],
+    { baseDelayMs: 0, maxDelayMs: 1000 },
+  );
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(error.code).toBe('USAGE_LIMIT_EXCEEDED');
+  expect(error.retryAfterMs).toBe(3_600_000);
+  expect(error.attempts).toBe(1);
+});
+
+test('getComposer() retries transient failures', async () => {
+  const composer = {
+    composerId: 'comp-123',
+    composerName: 'Test Composer',
+    version: '1.0.0',
+    config: { schema: [], inputData: null, inputDataRootName: null },
+    segments: [],
+  };
+  const client = setup([
+    () => failure(503, 'BAD_REQUEST'),
+    () => new Response(JSON.stringify(composer)),
+  ]);
+
+  const result = await client.getComposer('comp-123');
+
+  expect(result.composerId).toBe('comp-123');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(2);
+});
@@ -0,0 +1,193 @@
+import { afterEach, expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import type { PromptlyError } from '../errors.ts';
+import { interpolate, interpolateStaticSegment } from '../interpolate.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  PromptlyClientConfig,
+  PromptlySource,
+  PromptResponse,
+} from '../types.ts';
+import { captureSyncError, stubModel } from './helpers.ts';
+
+const originalWarn = console.warn;
+
+afterEach(() => {
+  console.warn = originalWarn;
+});
+
+const prompt: PromptResponse = {
+  promptId: 'greeting',
+  promptName: 'Greeting',
+  version: '1.0.0',
+  systemMessage: '',
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  userMessage: 'Hello ${name}, welcome to ${team}.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+};
+
+const composer: ComposerResponse = {
+  composerId: 'comp-123',
+  composerName: 'Newsletter',
+  version: '1.0.0',
+  config: { schema: [], inputData: null, inputDataRootName: null },
+  segments: [
+    { type: 'static', content: '<p>Hi {{name}}</p>' },
+    {
+      type: 'prompt',
+      promptId: 'intro',
+      promptName: 'Intro',
+      version: '1.0.0',
+      systemMessage: null,
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+      userMessage: 'Introduce ${topic}.',
+      config: { model: 'claude-haiku-4.5' },
+    },
+  ],
+};
+
+const source: PromptlySource = {
+  getPrompt: async () => prompt,
+  getComposer: async () => composer,
+  listPrompts: async () => [prompt],
+  listComposers: async () => [composer],
+};
+
+const setup = (config?: PromptlyClientConfig) =>
+  createPromptlyClient({ source, model: stubModel, ...config });
+
+const captureRejection = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (err) {
+    return err as PromptlyError;
+  }
+  throw new Error('Expected promise to reject');
+};
+
+const captureWarnings = () => {
+  const warnings: string[] = [];
+  console.warn = (...args: unknown[]) => {
+    warnings.push(args.map(String).join(' '));
+  };
+  return warnings;
+};
+
+test('userMessage() leaves missing variables in place by default', async () => {
+  const { userMessage } = await setup().getPrompt('greeting');
+
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  expect(userMessage({ name: 'Ada' })).toBe('Hello Ada, welcome to ${team}.');
+});
+
+test('strict userMessage() throws listing every missing variable', async () => {
+  const { userMessage } = await setup({ strict: true }).getPrompt('greeting');
+
+  const error = captureSyncError(() => userMessage({}));
+
+  expect(error.code).toBe('MISSING_VARIABLES');
+  expect(error.status).toBe(0);
+  expect(error.missingVariables).toEqual(['name', 'team']);
+  expect(error.message).toBe(
+    'Missing variables for prompt "greeting": name, team',
+  );
+});
+
+test('strict mode warns about unused variables by default', async () => {
+  const warnings = captureWarnings();
+  const { userMessage } = await setup({ strict: true }).getPrompt('greeting');
+
+  const message = userMessage({ name: 'Ada', team: 'Core', extra: 1 });
+
+  expect(message).toBe('Hello Ada, welcome to Core.');
+  expect(warnings).toEqual([
+    '[promptly] Unused variables for prompt "greeting": extra',
+  ]);
+});
+
+test('strict mode can throw on unused variables', async () => {
+  const { userMessage } = await setup({
+    strict: { unused: 'throw' },
+  }).getPrompt('greeting');
+
+  const error = captureSyncError(() =>
+    userMessage({ name: 'Ada', team: 'Core', extra: 1 }),
+  );
+
+  expect(error.code).toBe('UNUSED_VARIABLES');
+  expect(error.unusedVariables).toEqual(['extra']);
+});
+
+test('getPrompt() strict option overrides the client', async () => {
+  const warnings = captureWarnings();
+  const client = setup({ strict: true });
+
+  const lenient = await client.getPrompt('greeting', { strict: false });
+  const quiet = await client.getPrompt('greeting', {
+    strict: { unused: 'ignore' },
+  });
+
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  expect(lenient.userMessage({})).toBe('Hello ${name}, welcome to ${team}.');
+  expect(quiet.userMessage({ name: 'Ada', team: 'Core', extra: 1 })).toBe(
+    'Hello Ada, welcome to Core.',
+  );
+  expect(warnings).toEqual([]);
+});
+
+test('strict getComposer() checks input across every segment', async () => {
+  const warnings = captureWarnings();
+  const client = setup({ strict: true });
+
+  const error = await captureRejection(
+    client.getComposer('comp-123' as ComposerId, {
+      input: { topic: 'AI' },
+    }),
+  );
+  await client.getComposer('comp-123' as ComposerId, {
+    input: { name: 'Ada', topic: 'AI', unused: true },
+  });
+
+  expect(error.code).toBe('MISSING_VARIABLES');
+  expect(error.message).toBe('Missing variables for composer "comp-123": name');
+  expect(warnings).toEqual([
+    '[promptly] Unused variables for composer "comp-123": unused',
+  ]);
+});
+
+test('getComposer() strict option applies without a client default', async () => {
+  const error = await captureRejection(
+    setup().getComposer('comp-123' as ComposerId, {
+      input: { name: 'Ada' },
+      strict: true,
+    }),
+  );
+
+  expect(error.missingVariables).toEqual(['topic']);
+});
+
+test('interpolate() and interpolateStaticSegment() accept strict', () => {
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  const template = 'Hi ${name}';
+
+  const promptError = captureSyncError(() =>
+    interpolate(template, {}, { strict: true }),
+  );
+  const segmentError = captureSyncError(() =>
+    interpolateStaticSegment('<p>{{name}}</p>', {}, { strict: true }),
+  );
+
+  expect(interpolate(template, {})).toBe(template);
+  expect(promptError.message).toBe('Missing variables for template: name');
+  expect(interpolateStaticSegment('<p>{{name}}</p>', {})).toBe('<p></p>');
+  expect(segmentError.message).toBe(
+    'Missing variables for static segment: name',
+  );
+});
@@ -0,0 +1,130 @@
+import { afterEach, expect, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import type { PromptlyClientConfig } from '../types.ts';
+import {
+  captureError,
+  hangingResponse,
+  mockGlobalFetch,
+  restoreFetch,
+  stubModel,
+} from './helpers.ts';
+
+const setup = (config: PromptlyClientConfig = {}) => {
+  mockGlobalFetch(hangingResponse);
+  return createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    ...config,
+  });
+};
+
+// Resolves once the mocked fetch has been called `count` times
+const fetchCalls = async (count: number) => {
+  const { calls } = (
+    globalThis.fetch as unknown as ReturnType<typeof mockGlobalFetch>
+  ).mock;
+  while (calls.length < count) {
+    await Bun.sleep(1);
+  }
+  return calls;
+};
+
+afterEach(() => {
+  restoreFetch();
+});
+
+test('getPrompt() throws TIMEOUT when timeoutMs elapses', async () => {
+  const client = setup({ timeoutMs: 10 });
+
+  const error = await captureError(client.getPrompt('my-prompt'));
+
+  expect(error.code).toBe('TIMEOUT');
+  expect(error.status).toBe(0);
+  expect(error.message).toContain('10ms');
+});
+
+test('getPrompt() throws ABORTED when the caller aborts', async () => {
+  const client = setup();
+  const controller = new AbortController();
+
+  const pending = client.getPrompt('my-prompt', { signal: controller.signal });
+  controller.abort();
+  const error = await captureError(pending);
+
+  expect(error.code).toBe('ABORTED');
+});
+
+test('getPrompt() aborts the underlying fetch when the caller aborts', async () => {
+  const client = setup();
+  const controller = new AbortController();
+
+  const pending = client.getPrompt('my-prompt', { signal: controller.signal });
+  const [call] = await fetchCalls(1);
+  controller.abort();
+  await captureError(pending);
+
+  expect(call?.[1]?.signal?.aborted).toBe(true);
+});
+
+test('getPrompt() reports ABORTED over TIMEOUT when both signals are set', async () => {
+  const client = setup({ timeoutMs: 1000 });
+  const controller = new AbortController();
+
+  const pending = client.getPrompt('my-prompt', { signal: controller.signal });
+  controller.abort();
+  const error = await captureError(pending);
+
+  expect(error.code).toBe('ABORTED');
+});
+
+test('getPrompt() retries timeouts but stops when the caller aborts', async () => {
+  const client = setup({
+    timeoutMs: 5,
+    retry: { maxAttempts: 3, baseDelayMs: 1000, jitter: false },
+  });
+  const controller = new AbortController();
+
+  const pending = client.getPrompt('my-prompt', { signal: controller.signal });
+  setTimeout(() => controller.abort(), 20);
+  const error = await captureError(pending);
+
+  expect(error.code).toBe('ABORTED');
+  expect(globalThis.fetch).toHaveBeenCalledTimes(1);
+});
+
+test('getPrompts() aborts every request with the shared signal', async () => {
+  const client = setup();
+  const controller = new AbortController();
+
+  const pending = client.getPrompts([{ promptId: 'a' }, { promptId: 'b' }], {
+    signal: controller.signal,
+  });
+  const calls = await fetchCalls(2);
+  controller.abort();
+  const error = await captureError(pending);
+
+  expect(error.code).toBe('ABORTED');
+  expect(calls.every(([, init]) => init?.signal?.aborted)).toBe(true);
+});
+
+test('getComposer() throws TIMEOUT when timeoutMs elapses', async () => {
+  const client = setup({ timeoutMs: 10 });
+
+  const error = await captureError(client.getComposer('comp-123'));
+
+  expect(error.code).toBe('TIMEOUT');
+});
+
+test('getComposers() throws ABORTED when the caller aborts', async () => {
+  const client = setup();
+  const controller = new AbortController();
+  controller.abort();
+
+  const error = await captureError(
+    client.getComposers([{ composerId: 'comp-123' }], {
+      signal: controller.signal,
+    }),
+  );
+
+  expect(error.code).toBe('ABORTED');
+});
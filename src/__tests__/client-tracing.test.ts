@@ -0,0 +1,199 @@
+import { afterAll, beforeAll, beforeEach, expect, test } from 'bun:test';
+import {
+  type Attributes,
+  type Span,
+  type SpanStatus,
+  SpanStatusCode,
+  type Tracer,
+  trace,
+} from '@opentelemetry/api';
+import { createPromptlyClient } from '../client.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  FetchFn,
+  PromptResponse,
+} from '../types.ts';
+import {
+  mockComposerResponse,
+  mockPromptResponse,
+  stubModel,
+} from './helpers.ts';
+
+const promptResponse: PromptResponse = {
+  ...mockPromptResponse,
+  version: '2.0.0',
+};
+
+const composerResponse: ComposerResponse = {
+  ...mockComposerResponse,
+  segments: [
+    ...mockComposerResponse.segments,
+    {
+      type: 'prompt',
+      promptId: 'p-1',
+      promptName: 'Summary',
+      version: '1.0.0',
+      systemMessage: null,
+      userMessage: 'Summarise.',
+      config: { model: 'gpt-4o' },
+    },
+  ],
+};
+
+type RecordedSpan = {
+  name: string;
+  attributes: Attributes;
+  status?: SpanStatus;
+  exceptions: unknown[];
+  ended: boolean;
+};
+
+let spans: RecordedSpan[] = [];
+
+const startSpan = (name: string, attributes: Attributes = {}): Span => {
+  const recorded: RecordedSpan = {
+    name,
+    attributes: { ...attributes },
+    exceptions: [],
+    ended: false,
+  };
+  spans.push(recorded);
+  const span = {
+    setAttributes: (next: Attributes) => {
+      Object.assign(recorded.attributes, next);
+      return span;
+    },
+    setStatus: (status: SpanStatus) => {
+      recorded.status = status;
+      return span;
+    },
+    recordException: (exception: unknown) => {
+      recorded.exceptions.push(exception);
+    },
+    end: () => {
+      recorded.ended = true;
+    },
+  };
+  return span as unknown as Span;
+};
+
+const tracer = {
+  startSpan: (name: string, options?: { attributes?: Attributes }) =>
+    startSpan(name, options?.attributes),
+  startActiveSpan: (
+    name: string,
+    options: { attributes?: Attributes },
+    fn: (span: Span) => unknown,
+  ) => fn(startSpan(name, options.attributes)),
+} as unknown as Tracer;
+
+const jsonFetch =
+  (body: unknown, status = 200): FetchFn =>
+  () =>
+    Promise.resolve(new Response(JSON.stringify(body), { status }));
+
+const findSpan = (name: string) => spans.find((s) => s.name === name);
+
+beforeAll(() => {
+  trace.setGlobalTracerProvider({ getTracer: () => tracer });
+});
+
+afterAll(() => {
+  trace.disable();
+});
+
+beforeEach(() => {
+  spans = [];
+});
+
+test('getPrompt records spans for the lookup, HTTP fetch and model resolution', async () => {
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(promptResponse),
+  });
+
+  await client.getPrompt('test-id-123');
+
+  expect(findSpan('promptly.getPrompt')?.attributes).toEqual({
+    'promptly.prompt_id': 'test-id-123',
+    'promptly.version': '2.0.0',
+    'promptly.model': 'claude-haiku-4.5',
+  });
+  expect(findSpan('promptly.fetch')?.attributes).toEqual({
+    'promptly.prompt_id': 'test-id-123',
+    'promptly.version': 'latest',
+    'http.request.method': 'GET',
+    'url.full': 'https://api.promptlycms.com/prompts/test-id-123',
+    'http.response.status_code': 200,
+  });
+  expect(findSpan('promptly.resolveModel')?.attributes).toEqual({
+    'promptly.model': 'claude-haiku-4.5',
+  });
+  expect(spans.every((s) => s.ended)).toBe(true);
+});
+
+test('cached lookups skip the fetch span', async () => {
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(promptResponse),
+    cache: true,
+  });
+
+  await client.getPrompt('test-id-123');
+  await client.getPrompt('test-id-123');
+
+  expect(spans.filter((s) => s.name === 'promptly.getPrompt')).toHaveLength(2);
+  expect(spans.filter((s) => s.name === 'promptly.fetch')).toHaveLength(1);
+});
+
+test('getComposer and compose record a span per generation', async () => {
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch(composerResponse),
+  });
+
+  const composer = await client.getComposer('comp-1' as ComposerId);
+  await composer.compose(async () => 'Done.');
+
+  expect(findSpan('promptly.getComposer')?.attributes).toEqual({
+    'promptly.composer_id': 'comp-1',
+    'promptly.version': '1.0.0',
+  });
+  expect(findSpan('promptly.compose')?.attributes).toEqual({
+    'promptly.composer_id': 'comp-1',
+    'promptly.version': '1.0.0',
+  });
+  expect(findSpan('promptly.generate')?.attributes).toEqual({
+    'promptly.composer_id': 'comp-1',
+    'promptly.prompt_id': 'p-1',
+    'promptly.prompt_name': 'Summary',
+    'promptly.model': 'gpt-4o',
+  });
+});
+
+test('failed requests mark spans as errors and record the exception', async () => {
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: jsonFetch({ error: 'Prompt not found', code: 'NOT_FOUND' }, 404),
+  });
+
+  await client.getPrompt('missing').catch(() => {});
+
+  for (const name of ['promptly.getPrompt', 'promptly.fetch']) {
+    const span = findSpan(name);
+    expect(span?.status).toEqual({
+      code: SpanStatusCode.ERROR,
+      message: 'Prompt not found',
+    });
+    expect(span?.exceptions).toHaveLength(1);
+    expect(span?.ended).toBe(true);
+  }
+  expect(
+    findSpan('promptly.fetch')?.attributes['http.response.status_code'],
+  ).toBe(404);
+});
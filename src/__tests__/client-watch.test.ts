@@ -0,0 +1,217 @@
+import { afterEach, expect, mock, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import type { PromptlyError } from '../errors.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  FetchFn,
+  PromptResponse,
+  PromptResult,
+} from '../types.ts';
+import { stubModel } from './helpers.ts';
+
+const promptResponse = (version: string): PromptResponse => ({
+  promptId: 'test-id-123',
+  promptName: 'Test Prompt',
+  version,
+  systemMessage: `System ${version}.`,
+  userMessage: 'Hello.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+});
+
+const composerResponse = (version: string): ComposerResponse => ({
+  composerId: 'comp-1',
+  composerName: 'Test Composer',
+  version,
+  config: { schema: [], inputData: null, inputDataRootName: null },
+  segments: [{ type: 'static', content: '<p>Hi {{name}}</p>' }],
+});
+
+// Serves whatever version is current; `failing` turns every response into a 500
+const createApi = () => {
+  const state = { version: '1.0.0', failing: false };
+  const fetchImpl = mock<FetchFn>(async (input) => {
+    if (state.failing) {
+      return Response.json({ error: 'Internal error' }, { status: 500 });
+    }
+    const { pathname } = new URL(input);
+    return Response.json(
+      pathname.startsWith('/composers')
+        ? composerResponse(state.version)
+        : promptResponse(state.version),
+    );
+  });
+  return { state, fetchImpl };
+};
+
+const unsubscribers: (() => void)[] = [];
+
+const setup = (fetchImpl: FetchFn) =>
+  createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+    watch: { interval: 5, maxInterval: 40 },
+  });
+
+const waitFor = async (condition: () => boolean) => {
+  const deadline = Date.now() + 1000;
+  while (!condition()) {
+    if (Date.now() > deadline) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await Bun.sleep(1);
+  }
+};
+
+afterEach(() => {
+  for (const unsubscribe of unsubscribers.splice(0)) {
+    unsubscribe();
+  }
+});
+
+test('watch() calls back with the rebuilt prompt when the version changes', async () => {
+  const { state, fetchImpl } = createApi();
+  const client = setup(fetchImpl);
+  const results: PromptResult[] = [];
+
+  unsubscribers.push(
+    client.watch({ promptId: 'test-id-123' }, (result) => {
+      results.push(result);
+    }),
+  );
+  await waitFor(() => fetchImpl.mock.calls.length >= 3);
+  expect(results).toEqual([]);
+
+  state.version = '2.0.0';
+  await waitFor(() => results.length === 1);
+
+  expect(results[0]?.version).toBe('2.0.0');
+  expect(results[0]?.systemMessage).toBe('System 2.0.0.');
+  expect(results[0]?.userMessage({})).toBe('Hello.');
+});
+
+test('watch() rebuilds composers with each subscriber input', async () => {
+  const { state, fetchImpl } = createApi();
+  const client = setup(fetchImpl);
+  const prompts: string[] = [];
+
+  for (const name of ['Ada', 'Grace']) {
+    unsubscribers.push(
+      client.watch(
+        { composerId: 'comp-1' as ComposerId, input: { name } },
+        (result) => {
+          prompts.push(result.formatComposer({} as never));
+        },
+      ),
+    );
+  }
+  await waitFor(() => fetchImpl.mock.calls.length >= 2);
+  state.version = '2.0.0';
+  await waitFor(() => prompts.length === 2);
+
+  expect(prompts.sort()).toEqual(['<p>Hi Ada</p>', '<p>Hi Grace</p>']);
+});
+
+test('subscribers to the same prompt share one poll', async () => {
+  const { fetchImpl } = createApi();
+  const client = setup(fetchImpl);
+
+  unsubscribers.push(client.watch({ promptId: 'test-id-123' }, () => {}));
+  unsubscribers.push(client.watch({ promptId: 'test-id-123' }, () => {}));
+  await Bun.sleep(30);
+  for (const unsubscribe of unsubscribers.splice(0)) {
+    unsubscribe();
+  }
+  const calls = fetchImpl.mock.calls.length;
+
+  // One baseline fetch plus one request per tick, not per subscriber
+  expect(calls).toBeGreaterThan(1);
+  expect(calls).toBeLessThanOrEqual(8);
+});
+
+test('unsubscribing the last subscriber stops polling', async () => {
+  const { fetchImpl } = createApi();
+  const client = setup(fetchImpl);
+
+  const unsubscribe = client.watch({ promptId: 'test-id-123' }, () => {});
+  await waitFor(() => fetchImpl.mock.calls.length >= 2);
+  unsubscribe();
+  const calls = fetchImpl.mock.calls.length;
+  await Bun.sleep(30);
+
+  expect(fetchImpl.mock.calls.length).toBe(calls);
+});
+
+test('resubscribing while a poll is in flight keeps one poll loop', async () => {
+  const { fetchImpl } = createApi();
+  let release: (() => void) | undefined;
+  // Holds the first poll after the baseline fetch until released
+  const gated = mock<FetchFn>(async (input, init) => {
+    if (!release && gated.mock.calls.length === 2) {
+      await new Promise<void>((resolve) => {
+        release = resolve;
+      });
+    }
+    return fetchImpl(input, init);
+  });
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: gated,
+    watch: { interval: 10, maxInterval: 10 },
+  });
+
+  const unsubscribe = client.watch({ promptId: 'test-id-123' }, () => {});
+  await waitFor(() => release !== undefined);
+  unsubscribe();
+  unsubscribers.push(client.watch({ promptId: 'test-id-123' }, () => {}));
+  release?.();
+  await Bun.sleep(20);
+  const calls = gated.mock.calls.length;
+  await Bun.sleep(100);
+
+  // One loop polls at most once per 10ms interval; two would double that
+  expect(gated.mock.calls.length - calls).toBeLessThanOrEqual(11);
+});
+
+test('failed polls reach onError and back off until a poll succeeds', async () => {
+  const { state, fetchImpl } = createApi();
+  const client = setup(fetchImpl);
+  const errors: PromptlyError[] = [];
+  const results: PromptResult[] = [];
+
+  unsubscribers.push(
+    client.watch(
+      { promptId: 'test-id-123' },
+      (result) => {
+        results.push(result);
+      },
+      {
+        onError: (error) => {
+          errors.push(error as PromptlyError);
+        },
+      },
+    ),
+  );
+  await waitFor(() => fetchImpl.mock.calls.length >= 2);
+  state.failing = true;
+  await waitFor(() => errors.length >= 3);
+
+  // Delays double after each failure: 5ms, 10ms, 20ms, 40ms...
+  const failingCalls = fetchImpl.mock.calls.length;
+  await Bun.sleep(30);
+  expect(fetchImpl.mock.calls.length - failingCalls).toBeLessThanOrEqual(2);
+  expect(errors[0]?.status).toBe(500);
+
+  state.failing = false;
+  state.version = '2.0.0';
+  await waitFor(() => results.length === 1);
+  expect(results[0]?.version).toBe('2.0.0');
+});
@@ -0,0 +1,199 @@
+import { expect, mock, test } from 'bun:test';
+import { createPromptlyClient } from '../client.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  FetchFn,
+  PromptlyWebhookEvent,
+  PromptResponse,
+} from '../types.ts';
+import {
+  createPromptlyWebhookHandler,
+  signPromptlyWebhook,
+  WEBHOOK_SIGNATURE_HEADER,
+} from '../webhook.ts';
+import { stubModel } from './helpers.ts';
+
+const SECRET = 'whsec_test';
+
+const promptResponse = (version: string): PromptResponse => ({
+  promptId: 'test-id-123',
+  promptName: 'Test Prompt',
+  version,
+  systemMessage: 'You are a helpful assistant.',
+  userMessage: 'Hello.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+});
+
+const composerResponse = (version: string): ComposerResponse => ({
+  composerId: 'comp-1',
+  composerName: 'Test Composer',
+  version,
+  config: { schema: [], inputData: null, inputDataRootName: null },
+  segments: [{ type: 'static', content: '<p>Intro</p>' }],
+});
+
+// Serves the current version for `latest` and echoes pinned versions
+const setup = (refresh?: boolean) => {
+  const state = { version: '1.0.0' };
+  const fetchImpl = mock<FetchFn>(async (input) => {
+    const url = new URL(input);
+    const version = url.searchParams.get('version') ?? state.version;
+    return Response.json(
+      url.pathname.startsWith('/composers')
+        ? composerResponse(version)
+        : promptResponse(version),
+    );
+  });
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+    cache: true,
+  });
+  const events: PromptlyWebhookEvent[] = [];
+  const handler = createPromptlyWebhookHandler({
+    client,
+    secret: SECRET,
+    refresh,
+    onEvent: (event) => {
+      events.push(event);
+    },
+  });
+  return { state, fetchImpl, client, handler, events };
+};
+
+const signedRequest = async (payload: unknown, secret = SECRET) => {
+  const body = JSON.stringify(payload);
+  return new Request('https://example.com/webhooks/promptly', {
+    method: 'POST',
+    body,
+    headers: {
+      [WEBHOOK_SIGNATURE_HEADER]: await signPromptlyWebhook(body, secret),
+    },
+  });
+};
+
+test('a publish event invalidates the cached latest prompt', async () => {
+  const { state, client, handler, events } = setup();
+  await client.getPrompt('test-id-123');
+  state.version = '2.0.0';
+
+  const response = await handler(
+    await signedRequest({
+      type: 'prompt.published',
+      id: 'test-id-123',
+      version: '2.0.0',
+    }),
+  );
+
+  expect(response.status).toBe(200);
+  expect(await response.json()).toEqual({ received: true });
+  expect((await client.getPrompt('test-id-123')).version).toBe('2.0.0');
+  expect(events).toEqual([
+    { type: 'prompt.published', id: 'test-id-123', version: '2.0.0' },
+  ]);
+});
+
+test('an unpublish event also drops the pinned version', async () => {
+  const { fetchImpl, client, handler } = setup();
+  await client.getComposer('comp-1' as ComposerId, { version: '1.0.0' });
+  await client.getComposer('comp-1' as ComposerId);
+
+  await handler(
+    await signedRequest({
+      type: 'composer.unpublished',
+      id: 'comp-1',
+      version: '1.0.0',
+    }),
+  );
+  await client.getComposer('comp-1' as ComposerId, { version: '1.0.0' });
+  await client.getComposer('comp-1' as ComposerId);
+
+  expect(fetchImpl).toHaveBeenCalledTimes(4);
+});
+
+test('refresh refetches the latest version into the cache', async () => {
+  const { state, fetchImpl, client, handler } = setup(true);
+  await client.getPrompt('test-id-123');
+  state.version = '2.0.0';
+
+  await handler(
+    await signedRequest({
+      type: 'prompt.published',
+      id: 'test-id-123',
+      version: '2.0.0',
+    }),
+  );
+  const result = await client.getPrompt('test-id-123');
+
+  expect(fetchImpl).toHaveBeenCalledTimes(2);
+  expect(result.version).toBe('2.0.0');
+});
+
+test('requests with a missing or wrong signature are rejected', async () => {
+  const { fetchImpl, client, handler, events } = setup();
+  await client.getPrompt('test-id-123');
+  const payload = {
+    type: 'prompt.published',
+    id: 'test-id-123',
+    version: '2.0.0',
+  };
+
+  const unsigned = await handler(
+    new Request('https://example.com/webhooks/promptly', {
+      method: 'POST',
+      body: JSON.stringify(payload),
+    }),
+  );
+  const forged = await handler(await signedRequest(payload, 'wrong-secret'));
+  await client.getPrompt('test-id-123');
+
+  expect(unsigned.status).toBe(401);
+  expect(forged.status).toBe(401);
+  expect(events).toEqual([]);
+  expect(fetchImpl).toHaveBeenCalledTimes(1);
+});
+
+test('signed payloads that are not events are rejected', async () => {
+  const { handler } = setup();
+
+  const unknownType = await handler(
+    await signedRequest({ type: 'prompt.deleted', id: 'x', version: '1.0.0' }),
+  );
+  const missingId = await handler(
+    await signedRequest({ type: 'prompt.published', version: '1.0.0' }),
+  );
+
+  expect(unknownType.status).toBe(400);
+  expect(missingId.status).toBe(400);
+});
+
+test('non-POST requests are rejected', async () => {
+  const { handler } = setup();
+
+  const response = await handler(
+    new Request('https://example.com/webhooks/promptly'),
+  );
+
+  expect(response.status).toBe(405);
+  expect(response.headers.get('Allow')).toBe('POST');
+});
+
+test('client.invalidate() removes a single cached entry', async () => {
+  const { fetchImpl, client } = setup();
+  await client.getPrompt('test-id-123');
+  await client.getPrompt('test-id-123', { version: '1.0.0' });
+
+  await client.invalidate({ type: 'prompt', id: 'test-id-123' });
+  await client.getPrompt('test-id-123');
+  await client.getPrompt('test-id-123', { version: '1.0.0' });
+
+  expect(fetchImpl).toHaveBeenCalledTimes(3);
+});
@@ -487,3 +487,44 @@ test('getPrompt() throws for unknown provider', async () => {
     'Failed to resolve model "llama-3-70b"',
   );
 });
+
+// --- fetch and headers options ---
+
+test('createPromptlyClient() routes requests through a custom fetch', async () => {
+  const customFetch = mock(() =>
+    Promise.resolve(new Response(JSON.stringify(mockPromptResponse))),
+  );
+  globalThis.fetch = mock(() =>
+    Promise.reject(new Error('global fetch should not be called')),
+  ) as unknown as typeof fetch;
+
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: customFetch,
+  });
+  const result = await client.getPrompt('my-prompt');
+
+  expect(result.promptId).toBe('test-id-123');
+  expect(customFetch).toHaveBeenCalledTimes(1);
+  expect(globalThis.fetch).not.toHaveBeenCalled();
+});
+
+test('createPromptlyClient() sends default headers without overriding Authorization', async () => {
+  const { getMockCalls } = setup();
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    headers: { 'X-Trace-Id': 'trace-123', Authorization: 'Bearer other' },
+  });
+
+  await client.getPrompt('my-prompt');
+
+  expect(getMockCalls()).toHaveLength(1);
+  for (const [, init] of getMockCalls() as [string, RequestInit][]) {
+    expect(init.headers).toEqual({
+      'X-Trace-Id': 'trace-123',
+      Authorization: 'Bearer test-key',
+    });
+  }
+});
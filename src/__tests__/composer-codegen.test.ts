@@ -356,6 +356,38 @@ test('generateTypeDeclaration: uses schema types for composer variables', () =>
   expect(output).toContain('count: number;');
 });
 
+test('generateTypeDeclaration: nests composer variable paths', () => {
+  const output = generateTypeDeclaration(
+    [],
+    [
+      mockComposer({
+        segments: [
+          { type: 'static', content: '<p>Hi {{user.name}}</p>' },
+          {
+            type: 'prompt',
+            promptId: 'p1',
+            promptName: 'Intro',
+            version: '1.0.0',
+            systemMessage: null,
+            // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+            userMessage: 'Thank ${user.email} for ${order.items[0].sku}',
+            config: {},
+          },
+        ],
+      }),
+    ],
+  );
+  expect(output).toContain(`        user: {
+          name: string;
+          email: string;
+        };
+        order: {
+          items: {
+            sku: string;
+          }[];
+        };`);
+});
+
 // --- extractStaticSegmentVariables ---
 
 test('extractStaticSegmentVariables: extracts data-field-path variables', () => {
@@ -379,6 +411,24 @@ test('extractStaticSegmentVariables: extracts mustache variables', () => {
   expect(vars).toContain('label');
 });
 
+test('extractStaticSegmentVariables: extracts mustache paths', () => {
+  const content = '<p>{{user.name}} bought {{order.items[0].sku}}</p>';
+  const vars = extractStaticSegmentVariables(content);
+  expect(vars).toEqual(['user.name', 'order.items[0].sku']);
+});
+
+test('extractStaticSegmentVariables: strips filters from mustaches', () => {
+  const vars = extractStaticSegmentVariables('<p>{{name | upper}}</p>');
+  expect(vars).toEqual(['name']);
+});
+
+test('extractStaticSegmentVariables: understands {{#if}} and {{#each}}', () => {
+  const vars = extractStaticSegmentVariables(
+    '{{#if footer}}<p>{{footer}}</p>{{/if}}{{#each links}}<a href="{{this.url}}"></a>{{/each}}',
+  );
+  expect(vars).toEqual(['footer?', 'links[0]', 'links[0].url']);
+});
+
 test('extractStaticSegmentVariables: deduplicates across patterns', () => {
   const content =
     '<span data-variable-ref data-field-path="name"></span> {{name}}';
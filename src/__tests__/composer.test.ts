@@ -1,10 +1,8 @@
 import { afterEach, expect, mock, test } from 'bun:test';
-import {
-  createPromptlyClient,
-  interpolateStaticSegment,
-  toCamelCase,
-} from '../client.ts';
+import { createPromptlyClient, toCamelCase } from '../client.ts';
 import { PromptlyError } from '../errors.ts';
+import { rawHtml } from '../html.ts';
+import { interpolateStaticSegment } from '../interpolate.ts';
 import type { ComposerId, ComposerResponse, FormatInput } from '../types.ts';
 
 type MockFetch = ReturnType<typeof mock<typeof fetch>>;
@@ -148,6 +146,32 @@ test('interpolateStaticSegment() handles multiple replacements', () => {
   );
 });
 
+test('interpolateStaticSegment() escapes HTML in input values', () => {
+  const content =
+    '<p><span data-variable-ref data-field-path="name"></span></p><a href="?q={{query}}">{{query}}</a>';
+  expect(
+    interpolateStaticSegment(content, {
+      name: '<script>alert(1)</script>',
+      query: 'a&b "c" \'d\'',
+    }),
+  ).toBe(
+    '<p>&lt;script&gt;alert(1)&lt;/script&gt;</p><a href="?q=a&amp;b &quot;c&quot; &#39;d&#39;">a&amp;b &quot;c&quot; &#39;d&#39;</a>',
+  );
+});
+
+test('interpolateStaticSegment() inserts rawHtml() values unescaped', () => {
+  const content = '<div>{{banner}}</div><div>{{forged}}</div>';
+  expect(
+    interpolateStaticSegment(content, {
+      banner: rawHtml('<b>Sale</b>'),
+      // Looks like raw HTML but didn't come from rawHtml()
+      forged: JSON.parse('{"html":"<i>x</i>"}'),
+    }),
+  ).toBe(
+    '<div><b>Sale</b></div><div>{&quot;html&quot;:&quot;&lt;i&gt;x&lt;/i&gt;&quot;}</div>',
+  );
+});
+
 // --- getComposer() ---
 
 test('getComposer() fetches composer with correct URL and auth header', async () => {
@@ -404,6 +428,35 @@ test('getComposer() interpolates variable refs inside html_block via formatCompo
   expect(output).toBe('<div><a href="https://example.com">Hi Dan</a></div>');
 });
 
+test('getComposer() escapes input in static and html_block segments but not prompts', async () => {
+  const response: ComposerResponse = {
+    ...mockComposerResponse,
+    segments: [
+      { type: 'static', content: '<p>Hi {{name}}</p>' },
+      { type: 'html_block', html: '<div>{{bio}}</div>' },
+      {
+        type: 'prompt',
+        promptId: 'prompt-a',
+        promptName: 'Intro Prompt',
+        version: '1.0.0',
+        systemMessage: null,
+        // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+        userMessage: 'Greet ${name}.',
+        config: { model: 'claude-haiku-4.5' },
+      },
+    ],
+  };
+  const { client } = setup(response);
+  const result = await client.getComposer('comp-123', {
+    input: { name: 'Tom & <Jerry>', bio: rawHtml('<em>Cat</em>') },
+  });
+
+  expect(result.formatComposer({} as Record<string, string>)).toBe(
+    '<p>Hi Tom &amp; &lt;Jerry&gt;</p><div><em>Cat</em></div>',
+  );
+  expect(result.introPrompt.prompt).toBe('Greet Tom & <Jerry>.');
+});
+
 test('getComposer() preserves MSO conditional comments byte-exactly inside html_block', async () => {
   const htmlBlockResponse: ComposerResponse = {
     ...mockComposerResponse,
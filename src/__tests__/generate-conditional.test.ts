@@ -0,0 +1,91 @@
+import { afterAll, beforeEach, expect, test } from 'bun:test';
+import { fetchAllComposers, fetchAllPrompts } from '../cli/generate.ts';
+import type {
+  ComposerResponse,
+  ConditionalEntry,
+  PromptResponse,
+} from '../types.ts';
+
+const prompts: PromptResponse[] = [
+  {
+    promptId: 'test-id-123',
+    promptName: 'Test Prompt',
+    version: '1.0.0',
+    systemMessage: 'You are a helpful assistant.',
+    userMessage: 'Hello.',
+    config: {
+      model: 'claude-haiku-4.5',
+      temperature: 0.7,
+      schema: [],
+      inputData: null,
+      inputDataRootName: null,
+    },
+  },
+];
+
+const composers: ComposerResponse[] = [
+  {
+    composerId: 'comp-1',
+    composerName: 'Test Composer',
+    version: '1.0.0',
+    config: { schema: [], inputData: null, inputDataRootName: null },
+    segments: [{ type: 'static', content: '<p>Intro</p>' }],
+  },
+];
+
+const LAST_MODIFIED = 'Wed, 01 Jan 2026 00:00:00 GMT';
+
+let requests: Headers[] = [];
+
+// Local stand-in for the list endpoints that honours If-Modified-Since
+const server = Bun.serve({
+  port: 0,
+  fetch: (request) => {
+    requests.push(request.headers);
+    if (request.headers.get('If-Modified-Since') === LAST_MODIFIED) {
+      return new Response(null, { status: 304 });
+    }
+    const { pathname } = new URL(request.url);
+    return Response.json(pathname === '/composers' ? composers : prompts, {
+      headers: { 'Last-Modified': LAST_MODIFIED },
+    });
+  },
+});
+
+const baseUrl = server.url.toString();
+
+beforeEach(() => {
+  requests = [];
+});
+
+afterAll(() => {
+  server.stop(true);
+});
+
+test('fetchAllPrompts() reuses the stored list on 304', async () => {
+  const conditionalCache = new Map<string, ConditionalEntry>();
+
+  const first = await fetchAllPrompts('key', baseUrl, { conditionalCache });
+  const second = await fetchAllPrompts('key', baseUrl, { conditionalCache });
+
+  expect(requests[1]?.get('If-Modified-Since')).toBe(LAST_MODIFIED);
+  expect(second).toEqual(first);
+  expect(second).toEqual(prompts);
+});
+
+test('fetchAllComposers() reuses the stored list on 304', async () => {
+  const conditionalCache = new Map<string, ConditionalEntry>();
+
+  await fetchAllComposers('key', baseUrl, { conditionalCache });
+  const second = await fetchAllComposers('key', baseUrl, { conditionalCache });
+
+  expect(requests[1]?.get('If-Modified-Since')).toBe(LAST_MODIFIED);
+  expect(second).toEqual(composers);
+});
+
+test('list fetches are unconditional without a conditionalCache', async () => {
+  await fetchAllPrompts('key', baseUrl);
+  await fetchAllPrompts('key', baseUrl);
+
+  expect(requests.map((h) => h.get('If-Modified-Since'))).toEqual([null, null]);
+});
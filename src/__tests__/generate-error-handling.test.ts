@@ -112,3 +112,39 @@ test('generateTypeDeclaration() emits empty ComposerVariableMap/ComposerPromptMa
   expect(result).toContain('interface ComposerVariableMap {');
   expect(result).toContain('interface ComposerPromptMap {');
 });
+
+test('generate() fetches through the provided fetch with default headers', async () => {
+  const calls: [string, RequestInit | undefined][] = [];
+  const customFetch = async (url: string, init?: RequestInit) => {
+    calls.push([url, init]);
+    const body = url.includes('/composers') ? [] : [promptResponse()];
+    return new Response(JSON.stringify(body), { status: 200 });
+  };
+  globalThis.fetch = (() => {
+    throw new Error('global fetch should not be called');
+  }) as unknown as typeof fetch;
+  captureWarnings();
+
+  const outputPath = join(
+    tmpdir(),
+    `promptly-env-${Date.now()}-${Math.random().toString(36).slice(2)}.d.ts`,
+  );
+
+  try {
+    await generate('test-key', outputPath, undefined, {
+      fetch: customFetch,
+      headers: { 'X-Proxy-Auth': 'secret' },
+    });
+
+    expect(calls).toHaveLength(2);
+    for (const [, init] of calls) {
+      expect(init?.headers).toEqual({
+        'X-Proxy-Auth': 'secret',
+        Authorization: 'Bearer test-key',
+      });
+    }
+    expect(await readFile(outputPath, 'utf-8')).toContain("'prompt-1':");
+  } finally {
+    await rm(outputPath, { force: true });
+  }
+});
@@ -0,0 +1,86 @@
+import { afterEach, expect, test } from 'bun:test';
+import { readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { generateFromSource } from '../cli/generate.ts';
+import type {
+  ComposerResponse,
+  PromptlySource,
+  PromptResponse,
+} from '../types.ts';
+
+const originalLog = console.log;
+const originalWarn = console.warn;
+
+afterEach(() => {
+  console.log = originalLog;
+  console.warn = originalWarn;
+});
+
+const prompt: PromptResponse = {
+  promptId: 'review',
+  promptName: 'Review',
+  version: '1.0.0',
+  systemMessage: 'System.',
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  userMessage: 'Review ${pr}.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+};
+
+const composer: ComposerResponse = {
+  composerId: 'newsletter',
+  composerName: 'Newsletter',
+  version: '1.0.0',
+  config: { schema: [], inputData: null, inputDataRootName: null },
+  segments: [{ type: 'static', content: '<p>Hi {{name}}</p>' }],
+};
+
+const staticSource = (
+  prompts: PromptResponse[],
+  composers: ComposerResponse[],
+): PromptlySource => ({
+  getPrompt: async () => prompts[0] as PromptResponse,
+  getComposer: async () => composers[0] as ComposerResponse,
+  listPrompts: async () => prompts,
+  listComposers: async () => composers,
+});
+
+const outputPath = () =>
+  join(tmpdir(), `promptly-source-env-${Date.now()}.d.ts`);
+
+test('generateFromSource() writes the same declarations as the API', async () => {
+  console.log = () => {};
+  console.warn = () => {};
+  const path = outputPath();
+
+  try {
+    await generateFromSource(staticSource([prompt], [composer]), path);
+    const content = await readFile(path, 'utf-8');
+
+    expect(content).toContain("'review': {");
+    expect(content).toContain('pr: string;');
+    expect(content).toContain('newsletter: {');
+    expect(content).toContain('name: string;');
+  } finally {
+    await rm(path, { force: true });
+  }
+});
+
+test('generateFromSource() writes nothing for an empty source', async () => {
+  const logs: string[] = [];
+  console.log = (...args: unknown[]) => {
+    logs.push(args.map(String).join(' '));
+  };
+  const path = outputPath();
+
+  await generateFromSource(staticSource([], []), path);
+
+  expect(logs).toEqual(['  No prompts or composers found in the source.']);
+  expect(await Bun.file(path).exists()).toBe(false);
+});
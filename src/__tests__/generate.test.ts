@@ -58,6 +58,30 @@ test('extractTemplateVariables: deduplicates repeated variables', () => {
   expect(result).toEqual(['name', 'other']);
 });
 
+test('extractTemplateVariables: keeps dotted and indexed paths', () => {
+  const result = extractTemplateVariables(
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    '${user.name} ordered ${order.items[0].sku}',
+  );
+  expect(result).toEqual(['user.name', 'order.items[0].sku']);
+});
+
+test('extractTemplateVariables: strips filters from variable names', () => {
+  const result = extractTemplateVariables(
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    '${ items | join(", ") } on ${createdAt|date("yyyy-MM-dd")} by ${name}',
+  );
+  expect(result).toEqual(['items', 'createdAt', 'name']);
+});
+
+test('extractTemplateVariables: marks {{#if}} variables optional and {{#each}} lists as arrays', () => {
+  const result = extractTemplateVariables(
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    '{{#if tier}}${tier} ${name}{{/if}}{{#each items}}${this.sku}{{/each}}',
+  );
+  expect(result).toEqual(['tier?', 'name', 'items[0]', 'items[0].sku']);
+});
+
 // --- compareSemver ---
 
 test('compareSemver: returns negative when a < b', () => {
@@ -426,3 +450,80 @@ test('generateTypeDeclaration: falls back to string for variables not in schema'
   expect(result).toContain('known: number;');
   expect(result).toContain('unknown: string;');
 });
+
+test('generateTypeDeclaration: nests types for variable paths', () => {
+  const prompts = [
+    makePrompt({
+      promptId: 'JPxlUpstuhXB5OwOtKPpj',
+      userMessage:
+        // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+        '${user.name} ordered ${order.items[0].sku} x${order.items[0].qty} (${tags[1]})',
+      config: {
+        model: 'claude-haiku-4.5',
+        temperature: 0.7,
+        schema: [field('user', 'object')],
+        inputData: null,
+        inputDataRootName: null,
+      },
+    }),
+  ];
+  const result = generateTypeDeclaration(prompts);
+
+  expect(result).toContain(`        | '1.0.0']: {
+        user: {
+          name: string;
+        };
+        order: {
+          items: {
+            sku: string;
+            qty: string;
+          }[];
+        };
+        tags: string[];
+      };`);
+});
+
+test('generateTypeDeclaration: types sections as optional properties and arrays', () => {
+  const prompts = [
+    makePrompt({
+      promptId: 'JPxlUpstuhXB5OwOtKPpj',
+      userMessage: [
+        // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+        'Hi ${name}.{{#if tier}} ${tier}{{/if}}{{#if user}}${user.email}{{/if}}',
+        // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+        '{{#each orders}}{{#each this.items}}${this.sku}{{#if this.note}}${this.note}{{/if}}{{/each}}{{/each}}',
+        '{{#each tags}}{{/each}}',
+      ].join(''),
+    }),
+  ];
+  const result = generateTypeDeclaration(prompts);
+
+  expect(result).toContain(`        | '1.0.0']: {
+        name: string;
+        tier?: string;
+        user?: {
+          email: string;
+        };
+        orders: {
+          items: {
+            sku: string;
+            note?: string;
+          }[];
+        }[];
+        tags: string[];
+      };`);
+});
+
+test('generateTypeDeclaration: a variable used outside its {{#if}} stays required', () => {
+  const prompts = [
+    makePrompt({
+      promptId: 'guarded',
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+      userMessage: '{{#if tier}}Tier{{/if}} ${tier}',
+    }),
+  ];
+  const result = generateTypeDeclaration(prompts);
+
+  expect(result).toContain('        tier: string;');
+  expect(result).not.toContain('tier?');
+});
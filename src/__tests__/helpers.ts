@@ -0,0 +1,84 @@
+import { mock } from 'bun:test';
+import type { PromptlyError } from '../errors.ts';
+import type { ComposerResponse, FetchFn, PromptResponse } from '../types.ts';
+
+// Shared fixtures for the client tests; spread and override the fields a
+// test asserts on
+
+export const stubModel = ((id: string) => ({ modelId: id })) as (
+  id: string,
+) => import('ai').LanguageModel;
+
+export const mockPromptResponse: PromptResponse = {
+  promptId: 'test-id-123',
+  promptName: 'Test Prompt',
+  version: '1.0.0',
+  systemMessage: 'You are a helpful assistant.',
+  userMessage: 'Hello.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+};
+
+export const mockComposerResponse: ComposerResponse = {
+  composerId: 'comp-1',
+  composerName: 'Test Composer',
+  version: '1.0.0',
+  config: { schema: [], inputData: null, inputDataRootName: null },
+  segments: [{ type: 'static', content: '<p>Intro</p>' }],
+};
+
+export const jsonFetch = (body: unknown) =>
+  mock<FetchFn>(() => Promise.resolve(new Response(JSON.stringify(body))));
+
+// Never responds; rejects like the real fetch once the signal aborts
+export const hangingResponse: FetchFn = (_url, init) =>
+  new Promise((_resolve, reject) => {
+    if (init?.signal?.aborted) {
+      reject(init.signal.reason);
+    }
+    init?.signal?.addEventListener('abort', () => {
+      reject(init.signal?.reason);
+    });
+  });
+
+export const hangingFetch = () => mock<FetchFn>(hangingResponse);
+
+const originalFetch = globalThis.fetch;
+
+// Replaces the global fetch until restoreFetch() runs, usually in afterEach
+export const mockGlobalFetch = (
+  implementation: (
+    ...args: Parameters<FetchFn>
+  ) => Promise<Response> | Response,
+) => {
+  const fetchMock = mock(implementation);
+  globalThis.fetch = fetchMock as unknown as typeof fetch;
+  return fetchMock;
+};
+
+export const restoreFetch = () => {
+  globalThis.fetch = originalFetch;
+};
+
+export const captureError = async (promise: Promise<unknown>) => {
+  try {
+    await promise;
+  } catch (err) {
+    return err as PromptlyError;
+  }
+  throw new Error('Expected promise to reject');
+};
+
+export const captureSyncError = (fn: () => unknown) => {
+  try {
+    fn();
+  } catch (err) {
+    return err as PromptlyError;
+  }
+  throw new Error('Expected function to throw');
+};
@@ -0,0 +1,98 @@
+import { afterEach, expect, test } from 'bun:test';
+import { readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { pull } from '../cli/pull.ts';
+import { PromptlyError } from '../errors.ts';
+import type {
+  ComposerResponse,
+  PromptlySnapshot,
+  PromptResponse,
+} from '../types.ts';
+
+const originalFetch = globalThis.fetch;
+const originalLog = console.log;
+
+afterEach(() => {
+  globalThis.fetch = originalFetch;
+  console.log = originalLog;
+});
+
+const promptResponse: PromptResponse = {
+  promptId: 'prompt-1',
+  promptName: 'Test Prompt',
+  version: '1.0.0',
+  systemMessage: 'System.',
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  userMessage: 'Hello ${name}.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+};
+
+const composerResponse: ComposerResponse = {
+  composerId: 'composer-1',
+  composerName: 'Test Composer',
+  version: '1.0.0',
+  config: { schema: [], inputData: null, inputDataRootName: null },
+  segments: [{ type: 'static', content: '<p>Hello</p>' }],
+};
+
+const tempPath = () =>
+  join(
+    tmpdir(),
+    `promptly-snapshot-${Date.now()}-${Math.random().toString(36).slice(2)}.json`,
+  );
+
+test('pull() writes prompts and composers to a JSON snapshot', async () => {
+  const requested: string[] = [];
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    requested.push(url);
+    const body = url.includes('/composers')
+      ? [composerResponse]
+      : [promptResponse];
+    return new Response(JSON.stringify(body), { status: 200 });
+  }) as typeof fetch;
+  console.log = () => {};
+  const outputPath = tempPath();
+
+  try {
+    await pull('test-key', outputPath, 'https://api.example.com');
+
+    const written = JSON.parse(
+      await readFile(outputPath, 'utf-8'),
+    ) as PromptlySnapshot;
+    expect(written.prompts).toEqual([promptResponse]);
+    expect(written.composers).toEqual([composerResponse]);
+    expect(Number.isNaN(Date.parse(written.pulledAt))).toBe(false);
+    expect(requested).toContain(
+      'https://api.example.com/prompts?include_versions=true',
+    );
+  } finally {
+    await rm(outputPath, { force: true });
+  }
+});
+
+test('pull() fails when composers cannot be fetched', async () => {
+  globalThis.fetch = (async (input: string | URL | Request) => {
+    const url = typeof input === 'string' ? input : input.toString();
+    if (url.includes('/composers')) {
+      return new Response(
+        JSON.stringify({ error: 'Unresolved', code: 'UNRESOLVED_PROMPT' }),
+        { status: 422 },
+      );
+    }
+    return new Response(JSON.stringify([promptResponse]), { status: 200 });
+  }) as typeof fetch;
+  const outputPath = tempPath();
+
+  await expect(pull('test-key', outputPath)).rejects.toBeInstanceOf(
+    PromptlyError,
+  );
+  expect(await Bun.file(outputPath).exists()).toBe(false);
+});
@@ -0,0 +1,56 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { mkdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { buildCjsEntries, type CjsBuild } from './cjs-build.ts';
+import {
+  captureError,
+  jsonFetch,
+  mockPromptResponse,
+  stubModel,
+} from './helpers.ts';
+
+const directory = join(
+  tmpdir(),
+  `promptly-cjs-source-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+);
+
+let cjs: CjsBuild;
+
+beforeAll(async () => {
+  await mkdir(directory, { recursive: true });
+  cjs = await buildCjsEntries();
+}, 60_000);
+
+afterAll(async () => {
+  await cjs.remove();
+  await rm(directory, { recursive: true, force: true });
+});
+
+test('CJS source errors are PromptlyErrors of the main entry', async () => {
+  const { PromptlyError } = cjs.load<typeof import('../index.ts')>('index');
+  const { fileSource } =
+    cjs.load<typeof import('../source/index.ts')>('source');
+
+  const error = await captureError(fileSource(directory).getPrompt('missing'));
+
+  expect(error).toBeInstanceOf(PromptlyError);
+  expect(error.code).toBe('NOT_FOUND');
+});
+
+test('CJS overrideSource falls back to the API for missing overrides', async () => {
+  const { createPromptlyClient } =
+    cjs.load<typeof import('../index.ts')>('index');
+  const { overrideSource } =
+    cjs.load<typeof import('../source/index.ts')>('source');
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    source: overrideSource(directory),
+    fetch: jsonFetch({ ...mockPromptResponse, userMessage: 'From the API.' }),
+    model: stubModel,
+  });
+
+  const prompt = await client.getPrompt('p');
+
+  expect(prompt.userMessage({})).toBe('From the API.');
+});
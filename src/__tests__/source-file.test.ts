@@ -0,0 +1,224 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createPromptlyClient } from '../client.ts';
+import { fileSource } from '../source/file.ts';
+import type { ComposerId } from '../types.ts';
+import { captureError, stubModel } from './helpers.ts';
+
+const directory = join(
+  tmpdir(),
+  `promptly-source-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+);
+
+const files: Record<string, string> = {
+  'prompts/review.yaml': `promptName: Review
+version: 2.0.0
+systemMessage: You are a code reviewer.
+userMessage: Review \${pr}.
+config:
+  model: claude-haiku-4.5
+  temperature: 0.2
+  schema:
+    - id: f1
+      name: score
+      type: number
+      validations: []
+      params: {}
+publishedVersions:
+  - version: 1.0.0
+    userMessage: Review this.
+`,
+  'prompts/welcome.md': `---
+promptName: Welcome
+systemMessage: You write emails.
+config:
+  model: gpt-4o
+---
+
+Welcome \${name} to the team.
+`,
+  'prompts/json-prompt.json': JSON.stringify({
+    userMessage: 'Hello.',
+    config: { model: 'claude-haiku-4.5', temperature: 0.5 },
+  }),
+  'prompts/notes.txt': 'ignored',
+  'composers/newsletter.yml': `composerName: Newsletter
+segments:
+  - type: static
+    content: <p>Hi {{name}}</p>
+  - type: prompt
+    promptId: welcome
+    promptName: Intro
+`,
+  'composers/footer.md': `---
+version: 3
+---
+<p>Bye</p>
+`,
+};
+
+beforeAll(async () => {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(join(directory, path, '..'), { recursive: true });
+    await writeFile(join(directory, path), content, 'utf-8');
+  }
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+test('fileSource reads YAML prompts into the API response shape', async () => {
+  const prompt = await fileSource(directory).getPrompt('review');
+
+  expect(prompt).toEqual({
+    promptId: 'review',
+    promptName: 'Review',
+    version: '2.0.0',
+    systemMessage: 'You are a code reviewer.',
+    // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+    userMessage: 'Review ${pr}.',
+    config: {
+      model: 'claude-haiku-4.5',
+      temperature: 0.2,
+      schema: [
+        {
+          id: 'f1',
+          name: 'score',
+          type: 'number',
+          validations: [],
+          params: {},
+        },
+      ],
+      inputData: null,
+      inputDataRootName: null,
+    },
+    publishedVersions: [{ version: '1.0.0', userMessage: 'Review this.' }],
+  });
+});
+
+test('fileSource uses the Markdown body as the user message', async () => {
+  const prompt = await fileSource(directory).getPrompt('welcome');
+
+  // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+  expect(prompt.userMessage).toBe('Welcome ${name} to the team.');
+  expect(prompt.systemMessage).toBe('You write emails.');
+  expect(prompt.version).toBe('1.0.0');
+  expect(prompt.config.temperature).toBe(1);
+});
+
+test('fileSource serves published versions and rejects unknown ones', async () => {
+  const source = fileSource(directory);
+
+  const pinned = await source.getPrompt('review', '1.0.0');
+  const missingVersion = await captureError(
+    source.getPrompt('review', '9.9.9'),
+  );
+  const missingPrompt = await captureError(source.getPrompt('nope'));
+
+  expect(pinned.userMessage).toBe('Review this.');
+  expect(missingVersion.code).toBe('VERSION_NOT_FOUND');
+  expect(missingPrompt.code).toBe('NOT_FOUND');
+});
+
+test('fileSource fills prompt segments from their prompt files', async () => {
+  const composer = await fileSource(directory).getComposer('newsletter');
+
+  expect(composer.composerName).toBe('Newsletter');
+  expect(composer.segments).toEqual([
+    { type: 'static', content: '<p>Hi {{name}}</p>' },
+    {
+      type: 'prompt',
+      promptId: 'welcome',
+      promptName: 'Intro',
+      version: '1.0.0',
+      systemMessage: 'You write emails.',
+      // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+      userMessage: 'Welcome ${name} to the team.',
+      config: {
+        model: 'gpt-4o',
+        temperature: 1,
+        schema: [],
+        inputData: null,
+        inputDataRootName: null,
+      },
+    },
+  ]);
+});
+
+test('fileSource lists every supported file', async () => {
+  const source = fileSource(directory);
+
+  const prompts = await source.listPrompts();
+  const composers = await source.listComposers();
+
+  expect(prompts.map((p) => p.promptId)).toEqual([
+    'json-prompt',
+    'review',
+    'welcome',
+  ]);
+  expect(composers.map((c) => [c.composerId, c.version])).toEqual([
+    ['footer', '3'],
+    ['newsletter', '1.0.0'],
+  ]);
+  expect(composers[0]?.segments).toEqual([
+    { type: 'static', content: '<p>Bye</p>' },
+  ]);
+});
+
+test('fileSource reports invalid files with their path', async () => {
+  const broken = join(directory, 'broken');
+  await mkdir(join(broken, 'prompts'), { recursive: true });
+  await writeFile(
+    join(broken, 'prompts', 'bad.yaml'),
+    'userMessage: Hi\n',
+    'utf-8',
+  );
+
+  const error = await captureError(fileSource(broken).getPrompt('bad'));
+
+  expect(error.code).toBe('BAD_REQUEST');
+  expect(error.message).toContain(join('prompts', 'bad.yaml'));
+  expect(error.message).toContain('config.model is required');
+});
+
+test('a client with a source needs no API key and never fetches', async () => {
+  const client = createPromptlyClient({
+    source: fileSource(directory),
+    model: stubModel,
+    fetch: () => {
+      throw new Error('fetch should not be called');
+    },
+  });
+
+  const prompt = await client.getPrompt('review');
+  const composer = await client.getComposer('newsletter' as ComposerId, {
+    input: { name: 'Ada' },
+  });
+
+  expect(prompt.userMessage({ pr: '#42' })).toBe('Review #42.');
+  expect(prompt.temperature).toBe(0.2);
+  expect(composer.formatComposer({ intro: 'Hello!' } as never)).toBe(
+    '<p>Hi Ada</p>Hello!',
+  );
+});
+
+test('preloadAll() caches every file from the source', async () => {
+  const client = createPromptlyClient({
+    source: fileSource(directory),
+    model: stubModel,
+    cache: true,
+  });
+
+  const report = await client.preloadAll();
+
+  expect(report.loaded).toEqual([
+    { type: 'prompt', id: 'json-prompt' },
+    { type: 'prompt', id: 'review' },
+    { type: 'prompt', id: 'welcome' },
+    { type: 'composer', id: 'footer' },
+    { type: 'composer', id: 'newsletter' },
+  ]);
+});
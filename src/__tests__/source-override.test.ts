@@ -0,0 +1,168 @@
+import { afterAll, afterEach, beforeAll, expect, mock, test } from 'bun:test';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { createPromptlyClient } from '../client.ts';
+import type { PromptlyError } from '../errors.ts';
+import { overrideSource } from '../source/override.ts';
+import type {
+  ComposerId,
+  ComposerResponse,
+  FetchFn,
+  PromptResponse,
+} from '../types.ts';
+import { stubModel } from './helpers.ts';
+
+const directory = join(
+  tmpdir(),
+  `promptly-overrides-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+);
+
+const promptResponse = (promptId: string): PromptResponse => ({
+  promptId,
+  promptName: 'Remote Prompt',
+  version: '1.0.0',
+  systemMessage: 'From the API.',
+  userMessage: 'Hello.',
+  config: {
+    model: 'claude-haiku-4.5',
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+  },
+});
+
+const composerResponse = (composerId: string): ComposerResponse => ({
+  composerId,
+  composerName: 'Remote Composer',
+  version: '1.0.0',
+  config: { schema: [], inputData: null, inputDataRootName: null },
+  segments: [{ type: 'static', content: '<p>Remote</p>' }],
+});
+
+// Serves any ID, plus the two list endpoints
+const apiFetch = () =>
+  mock<FetchFn>(async (input) => {
+    const [, collection, id] = new URL(input).pathname.split('/');
+    if (collection === 'prompts') {
+      return Response.json(
+        id
+          ? promptResponse(id)
+          : [promptResponse('review'), promptResponse('summary')],
+      );
+    }
+    return Response.json(
+      id ? composerResponse(id) : [composerResponse('newsletter')],
+    );
+  });
+
+const originalNodeEnv = process.env.NODE_ENV;
+const originalEnvKey = process.env.PROMPTLY_API_KEY;
+
+beforeAll(async () => {
+  await mkdir(join(directory, 'prompts'), { recursive: true });
+  await writeFile(
+    join(directory, 'prompts', 'review.yaml'),
+    'systemMessage: From disk.\nuserMessage: Hello.\nconfig:\n  model: claude-haiku-4.5\n',
+    'utf-8',
+  );
+});
+
+afterEach(() => {
+  process.env.NODE_ENV = originalNodeEnv;
+  process.env.PROMPTLY_API_KEY = originalEnvKey;
+});
+
+afterAll(async () => {
+  await rm(directory, { recursive: true, force: true });
+});
+
+const setup = (messages: string[] = []) => {
+  const fetchImpl = apiFetch();
+  const client = createPromptlyClient({
+    apiKey: 'test-key',
+    model: stubModel,
+    fetch: fetchImpl,
+    source: overrideSource(directory, {
+      debug: (message) => {
+        messages.push(message);
+      },
+    }),
+  });
+  return { client, fetchImpl };
+};
+
+test('overridden prompts are served from disk without a request', async () => {
+  const { client, fetchImpl } = setup();
+
+  const prompt = await client.getPrompt('review');
+
+  expect(prompt.systemMessage).toBe('From disk.');
+  expect(fetchImpl).not.toHaveBeenCalled();
+});
+
+test('everything else falls back to the API', async () => {
+  const { client, fetchImpl } = setup();
+
+  const prompt = await client.getPrompt('summary');
+  const pinned = await client.getPrompt('review', { version: '0.9.0' });
+  const composer = await client.getComposer('newsletter' as ComposerId);
+
+  expect(prompt.systemMessage).toBe('From the API.');
+  expect(pinned.systemMessage).toBe('From the API.');
+  expect(composer.composerName).toBe('Remote Composer');
+  expect(fetchImpl).toHaveBeenCalledTimes(3);
+});
+
+test('the debug log names the source of each lookup', async () => {
+  const messages: string[] = [];
+  const { client } = setup(messages);
+
+  await client.getPrompt('review');
+  await client.getPrompt('summary');
+  await client.getComposer('newsletter' as ComposerId);
+
+  expect(messages).toEqual([
+    `[promptly] prompt review@latest served from local overrides in ${directory}`,
+    '[promptly] prompt summary@latest not overridden, using the Promptly API',
+    '[promptly] composer newsletter@latest not overridden, using the Promptly API',
+  ]);
+});
+
+test('preloadAll() lists API entries with local overrides replacing them', async () => {
+  const { client } = setup();
+
+  const report = await client.preloadAll();
+
+  expect(report.loaded).toEqual([
+    { type: 'prompt', id: 'summary' },
+    { type: 'prompt', id: 'review' },
+    { type: 'composer', id: 'newsletter' },
+  ]);
+});
+
+test('overrides still require an API key', () => {
+  delete process.env.PROMPTLY_API_KEY;
+
+  expect(() =>
+    createPromptlyClient({ source: overrideSource(directory) }),
+  ).toThrow('Missing API key');
+});
+
+test('overrides are refused in production unless allowed', () => {
+  process.env.NODE_ENV = 'production';
+
+  let error: PromptlyError | undefined;
+  try {
+    overrideSource(directory);
+  } catch (err) {
+    error = err as PromptlyError;
+  }
+
+  expect(error?.code).toBe('BAD_REQUEST');
+  expect(error?.message).toContain('NODE_ENV=production');
+  expect(
+    overrideSource(directory, { allowInProduction: true }).fallbackToApi,
+  ).toBe(true);
+});
@@ -0,0 +1,44 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import type { PromptlyError } from '../errors.ts';
+import type { ComposerId } from '../types.ts';
+import { buildCjsEntries, type CjsBuild } from './cjs-build.ts';
+
+let cjs: CjsBuild;
+
+beforeAll(async () => {
+  cjs = await buildCjsEntries();
+}, 60_000);
+
+afterAll(() => cjs.remove());
+
+test('CJS mock client errors are PromptlyErrors of the main entry', async () => {
+  const { PromptlyError } = cjs.load<typeof import('../index.ts')>('index');
+  const { createMockPromptlyClient } =
+    cjs.load<typeof import('../testing/index.ts')>('testing');
+
+  const error = (await createMockPromptlyClient()
+    .getPrompt('missing')
+    .catch((err) => err)) as PromptlyError;
+
+  expect(error).toBeInstanceOf(PromptlyError);
+  expect(error.code).toBe('NOT_FOUND');
+});
+
+test('CJS mock client trusts rawHtml() from the main entry', async () => {
+  const { rawHtml } = cjs.load<typeof import('../index.ts')>('index');
+  const { createMockPromptlyClient } =
+    cjs.load<typeof import('../testing/index.ts')>('testing');
+  const client = createMockPromptlyClient({
+    composers: {
+      'comp-123': {
+        segments: [{ type: 'static', content: '<p>Hi {{name}}</p>' }],
+      },
+    },
+  });
+
+  const composer = await client.getComposer('comp-123' as ComposerId, {
+    input: { name: rawHtml('<b>Ada</b>') },
+  });
+
+  expect(composer.formatComposer({} as never)).toBe('<p>Hi <b>Ada</b></p>');
+});
@@ -0,0 +1,134 @@
+import { expect, test } from 'bun:test';
+import { generateText, streamText } from 'ai';
+import { createMockPromptlyClient } from '../testing/index.ts';
+import type { ComposerId } from '../types.ts';
+import { captureError } from './helpers.ts';
+
+const createClient = () =>
+  createMockPromptlyClient({
+    prompts: {
+      review: {
+        systemMessage: 'You are a code reviewer.',
+        // biome-ignore lint/suspicious/noTemplateCurlyInString: CMS template variable syntax
+        userMessage: 'Review ${pr}.',
+        config: { temperature: 0.2 },
+        publishedVersions: [{ version: '0.9.0', userMessage: 'Review this.' }],
+      },
+    },
+    composers: {
+      'comp-123': {
+        segments: [{ type: 'static', content: '<p>Hi {{name}}</p>' }],
+      },
+    },
+    response: 'Looks good to me.',
+  });
+
+test('serves prompt fixtures with defaults for missing fields', async () => {
+  const client = createClient();
+
+  const prompt = await client.getPrompt('review');
+
+  expect(prompt.promptId).toBe('review');
+  expect(prompt.promptName).toBe('review');
+  expect(prompt.version).toBe('1.0.0');
+  expect(prompt.systemMessage).toBe('You are a code reviewer.');
+  expect(prompt.userMessage({ pr: '#42' })).toBe('Review #42.');
+  expect(prompt.temperature).toBe(0.2);
+  expect(prompt.config.model).toBe('mock-model');
+  expect(typeof prompt.model).toBe('object');
+});
+
+test('serves composer fixtures', async () => {
+  const client = createClient();
+
+  const composer = await client.getComposer('comp-123' as ComposerId, {
+    input: { name: 'Ada' },
+  });
+
+  expect(composer.composerName).toBe('comp-123');
+  expect(composer.formatComposer({} as never)).toBe('<p>Hi Ada</p>');
+});
+
+test('records every lookup in calls', async () => {
+  const client = createClient();
+
+  await client.getPrompt('review');
+  await client.getPrompt('review', { version: '0.9.0' });
+  await client.getComposer('comp-123' as ComposerId);
+
+  expect(client.calls).toEqual([
+    { type: 'prompt', id: 'review', version: undefined },
+    { type: 'prompt', id: 'review', version: '0.9.0' },
+    { type: 'composer', id: 'comp-123', version: undefined },
+  ]);
+});
+
+test('serves pinned versions from publishedVersions', async () => {
+  const client = createClient();
+
+  const prompt = await client.getPrompt('review', { version: '0.9.0' });
+  const error = await captureError(
+    client.getPrompt('review', { version: '9.9.9' }),
+  );
+
+  expect(prompt.version).toBe('0.9.0');
+  expect(prompt.userMessage({})).toBe('Review this.');
+  expect(error.code).toBe('VERSION_NOT_FOUND');
+});
+
+test('throws NOT_FOUND for prompts without a fixture', async () => {
+  const client = createClient();
+
+  const error = await captureError(client.getPrompt('missing'));
+
+  expect(error.code).toBe('NOT_FOUND');
+  expect(error.status).toBe(404);
+  expect(error.message).toContain('"missing"');
+});
+
+test('the mock model answers generateText and streamText', async () => {
+  const client = createClient();
+  const { model, userMessage } = await client.getPrompt('review');
+
+  const generated = await generateText({
+    model,
+    prompt: userMessage({ pr: '#42' }),
+  });
+  const streamed = streamText({ model, prompt: userMessage({ pr: '#42' }) });
+
+  expect(generated.text).toBe('Looks good to me.');
+  expect(await streamed.text).toBe('Looks good to me.');
+});
+
+test('response can depend on the model ID', async () => {
+  const client = createMockPromptlyClient({
+    prompts: {
+      haiku: { config: { model: 'claude-haiku-4.5' } },
+    },
+    response: (modelId) => `Reply from ${modelId}`,
+  });
+  const { model } = await client.getPrompt('haiku');
+
+  const { text } = await generateText({ model, prompt: 'Hi' });
+
+  expect(text).toBe('Reply from claude-haiku-4.5');
+});
+
+test('passes other client options through', async () => {
+  const statuses: string[] = [];
+  const client = createMockPromptlyClient({
+    prompts: { review: {} },
+    config: {
+      cache: true,
+      hooks: {
+        onResponse: ({ cacheStatus }) => void statuses.push(cacheStatus),
+      },
+    },
+  });
+
+  await client.getPrompt('review');
+  await client.getPrompt('review');
+
+  expect(client.calls).toHaveLength(1);
+  expect(statuses).toEqual(['miss', 'hit']);
+});
@@ -0,0 +1,228 @@
+import { afterAll, beforeAll, expect, test } from 'bun:test';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { request } from 'node:http';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { fetchAllPrompts, generate } from '../cli/generate.ts';
+import { createPromptlyClient } from '../client.ts';
+import { createPromptlyTestServer } from '../testing/index.ts';
+import type { ComposerId, PromptlyTestServer } from '../types.ts';
+import { captureError, stubModel } from './helpers.ts';
+
+const directory = join(
+  tmpdir(),
+  `promptly-server-${Date.now()}-${Math.random().toString(36).slice(2)}`,
+);
+
+const files: Record<string, string> = {
+  'prompts/review.yaml': `promptName: Review
+version: 2.0.0
+userMessage: Review \${pr}.
+config:
+  model: claude-haiku-4.5
+publishedVersions:
+  - version: 2.0.0
+    userMessage: Review \${pr}.
+  - version: 1.0.0
+    userMessage: Review this.
+`,
+  'composers/newsletter.yaml': `segments:
+  - type: static
+    content: <p>Hi {{name}}</p>
+`,
+};
+
+let server: PromptlyTestServer;
+
+beforeAll(async () => {
+  for (const [path, content] of Object.entries(files)) {
+    await mkdir(join(directory, path, '..'), { recursive: true });
+    await writeFile(join(directory, path), content, 'utf-8');
+  }
+  server = await createPromptlyTestServer({
+    fixtures: directory,
+    apiKey: 'test-key',
+  });
+});
+
+afterAll(async () => {
+  await server.close();
+  await rm(directory, { recursive: true, force: true });
+});
+
+const setup = (apiKey = 'test-key') =>
+  createPromptlyClient({ apiKey, baseUrl: server.url, model: stubModel });
+
+test('serves fixture prompts and pinned versions over HTTP', async () => {
+  const client = setup();
+
+  const latest = await client.getPrompt('review');
+  const pinned = await client.getPrompt('review', { version: '1.0.0' });
+
+  expect(latest.version).toBe('2.0.0');
+  expect(latest.userMessage({ pr: '#42' })).toBe('Review #42.');
+  expect(pinned.userMessage({})).toBe('Review this.');
+});
+
+test('reports rate limit headers', async () => {
+  const client = setup();
+
+  await client.getComposer('newsletter' as ComposerId);
+
+  expect(client.getUsage()).toMatchObject({ limit: 10_000 });
+});
+
+test('returns the documented error codes', async () => {
+  const client = setup();
+
+  const missing = await captureError(client.getPrompt('nope'));
+  const missingVersion = await captureError(
+    client.getPrompt('review', { version: '9.9.9' }),
+  );
+  const invalidKey = await captureError(setup('wrong-key').getPrompt('review'));
+
+  expect([missing.code, missing.status]).toEqual(['NOT_FOUND', 404]);
+  expect([missingVersion.code, missingVersion.status]).toEqual([
+    'VERSION_NOT_FOUND',
+    404,
+  ]);
+  expect([invalidKey.code, invalidKey.status]).toEqual(['INVALID_KEY', 401]);
+});
+
+test('rejects requests without an API key', async () => {
+  const response = await server.fetch('/prompts');
+
+  expect(response.status).toBe(401);
+  expect(await response.json()).toEqual({
+    error: 'Missing API key',
+    code: 'UNAUTHORIZED',
+  });
+});
+
+test('only lists published versions with include_versions', async () => {
+  const headers = { Authorization: 'Bearer test-key' };
+
+  const plain = await server.fetch('/prompts', { headers });
+  const withVersions = await fetchAllPrompts('test-key', server.url);
+
+  expect(((await plain.json()) as unknown[])[0]).not.toHaveProperty(
+    'publishedVersions',
+  );
+  expect(withVersions[0]?.publishedVersions).toHaveLength(2);
+});
+
+test('answers unknown routes and methods like the API', async () => {
+  const headers = { Authorization: 'Bearer test-key' };
+
+  const unknown = await server.fetch('/usage', { headers });
+  const post = await server.fetch('/prompts', { method: 'POST', headers });
+  const options = await server.fetch('/prompts', { method: 'OPTIONS' });
+
+  expect(unknown.status).toBe(404);
+  expect(post.status).toBe(405);
+  expect(post.headers.get('Allow')).toBe('GET, OPTIONS');
+  expect(await post.json()).toEqual({
+    error: 'Method not allowed',
+    code: 'METHOD_NOT_ALLOWED',
+  });
+  expect(options.status).toBe(204);
+  expect(options.headers.get('Allow')).toBe('GET, OPTIONS');
+});
+
+test('answers methods fetch cannot represent without crashing', async () => {
+  const trace = await new Promise<{ status?: number; body: string }>(
+    (resolve, reject) => {
+      const req = request(
+        `${server.url}/prompts`,
+        { method: 'TRACE', headers: { Authorization: 'Bearer test-key' } },
+        (res) => {
+          let body = '';
+          res.setEncoding('utf-8');
+          res.on('data', (chunk) => {
+            body += chunk;
+          });
+          res.on('end', () => resolve({ status: res.statusCode, body }));
+        },
+      );
+      req.on('error', reject);
+      req.end();
+    },
+  );
+  const after = await fetch(`${server.url}/prompts`, {
+    headers: { Authorization: 'Bearer test-key' },
+  });
+
+  expect(trace.status).toBe(405);
+  expect(JSON.parse(trace.body)).toEqual({
+    error: 'Method not allowed',
+    code: 'METHOD_NOT_ALLOWED',
+  });
+  expect(after.status).toBe(200);
+});
+
+test('answers fixture failures with INTERNAL_ERROR', async () => {
+  const broken = join(directory, 'broken');
+  await mkdir(join(broken, 'prompts'), { recursive: true });
+  await writeFile(join(broken, 'prompts', 'bad.yaml'), 'version: [', 'utf-8');
+  const failing = await createPromptlyTestServer({ fixtures: broken });
+
+  try {
+    const response = await failing.fetch('/prompts/bad', {
+      headers: { Authorization: 'Bearer any-key' },
+    });
+    const body = (await response.json()) as { code: string };
+
+    expect(response.status).toBe(500);
+    expect(body.code).toBe('INTERNAL_ERROR');
+  } finally {
+    await failing.close();
+  }
+});
+
+test('generate() writes declarations from the test server', async () => {
+  const originalLog = console.log;
+  console.log = () => {};
+  const path = join(directory, 'promptly-env.d.ts');
+
+  try {
+    await generate('test-key', path, server.url);
+  } finally {
+    console.log = originalLog;
+  }
+  const content = await readFile(path, 'utf-8');
+
+  expect(content).toContain("'review': {");
+  expect(content).toContain('pr: string;');
+  expect(content).toContain('newsletter: {');
+});
+
+test('answers with 429 once the quota is used up', async () => {
+  const resetAt = new Date('2030-01-01T00:00:00Z');
+  const limited = await createPromptlyTestServer({
+    fixtures: directory,
+    rateLimit: { limit: 100, remaining: 1, resetAt },
+  });
+  const client = createPromptlyClient({
+    apiKey: 'any-key',
+    baseUrl: limited.url,
+    model: stubModel,
+  });
+
+  try {
+    await client.getPrompt('review');
+    const error = await captureError(
+      client.getComposer('newsletter' as ComposerId),
+    );
+
+    expect(client.getUsage()).toEqual({ limit: 100, remaining: 0, resetAt });
+    expect(error.code).toBe('USAGE_LIMIT_EXCEEDED');
+    expect(error.status).toBe(429);
+    expect(error.resetAt).toEqual(resetAt);
+    expect(error.usage).toEqual({ used: 100, limit: 100 });
+    expect(error.upgradeUrl).toBe(
+      'https://app.promptlycms.com/settings?upgrade',
+    );
+  } finally {
+    await limited.close();
+  }
+});
@@ -3,6 +3,7 @@
 // NOT a runtime test file — bun test will not execute this.
 
 import type { LanguageModel } from 'ai';
+import type { rawHtml } from '../html.ts';
 import type {
   ComposerId,
   ComposerPrompt,
@@ -172,6 +173,20 @@ async () => {
   });
 };
 
+// --- getComposer() input accepts rawHtml() in place of strings ---
+
+declare const trusted: ReturnType<typeof rawHtml>;
+
+async () => {
+  await client.getComposer('type-test-composer', {
+    input: { text: trusted, targetLang: 'French' },
+  });
+  await client.getComposer('type-test-composer', {
+    // @ts-expect-error — only string variables can be raw HTML
+    input: { text: 1, targetLang: 'French' },
+  });
+};
+
 // --- getComposer() with generated composer IDs only accepts known IDs ---
 
 async () => {
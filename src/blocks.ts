@@ -0,0 +1,63 @@
+// `{{#if path}}…{{else}}…{{/if}}` and `{{#each path}}…{{else}}…{{/each}}`
+// sections; everything between them is left for placeholder rendering
+export type TemplateBlock = {
+  block: 'if' | 'each';
+  path: string;
+  body: TemplateNode[];
+  // Rendered when the condition is falsy or the list is empty
+  alternate: TemplateNode[];
+};
+
+export type TemplateNode = string | TemplateBlock;
+
+const BLOCK_TAG_REGEX =
+  /\{\{(?:#(if|each)\s+([^}]+?)\s*|(else)|\/(if|each))\}\}/g;
+
+// Tags that don't pair up, such as a stray `{{/if}}`, stay in the output as
+// text; blocks left open close at the end of the template
+export const parseTemplateBlocks = (template: string): TemplateNode[] => {
+  const root: TemplateNode[] = [];
+  const open: { node: TemplateBlock; parent: TemplateNode[] }[] = [];
+  let current = root;
+  let last = 0;
+
+  const pushText = (text: string) => {
+    if (!text) {
+      return;
+    }
+    const previous = current.at(-1);
+    if (typeof previous === 'string') {
+      current[current.length - 1] = previous + text;
+    } else {
+      current.push(text);
+    }
+  };
+
+  for (const match of template.matchAll(BLOCK_TAG_REGEX)) {
+    const [tag, opened, path, elseTag, closed] = match;
+    pushText(template.slice(last, match.index));
+    last = match.index + tag.length;
+    const top = open.at(-1);
+
+    if (opened) {
+      const node: TemplateBlock = {
+        block: opened as TemplateBlock['block'],
+        path: path as string,
+        body: [],
+        alternate: [],
+      };
+      current.push(node);
+      open.push({ node, parent: current });
+      current = node.body;
+    } else if (elseTag && top && current === top.node.body) {
+      current = top.node.alternate;
+    } else if (closed && top && top.node.block === closed) {
+      open.pop();
+      current = top.parent;
+    } else {
+      pushText(tag);
+    }
+  }
+  pushText(template.slice(last));
+  return root;
+};
@@ -0,0 +1,33 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { CacheStore } from '../types.ts';
+import { deserializeRecord, serializeRecord } from './serialize.ts';
+
+// One JSON file per entry. Writes go through a temporary file and a rename
+// so concurrent processes never read a half-written entry.
+export const createFileCacheStore = (directory: string): CacheStore => {
+  const pathFor = (key: string) =>
+    join(directory, `${encodeURIComponent(key)}.json`);
+
+  return {
+    get: async (key) => {
+      let raw: string;
+      try {
+        raw = await readFile(pathFor(key), 'utf-8');
+      } catch {
+        return undefined;
+      }
+      return deserializeRecord(raw);
+    },
+    set: async (key, record, ttl) => {
+      const path = pathFor(key);
+      const tempPath = `${path}.${process.pid}.${Date.now()}.tmp`;
+      await mkdir(directory, { recursive: true });
+      await writeFile(tempPath, serializeRecord(record, ttl), 'utf-8');
+      await rename(tempPath, path);
+    },
+    delete: async (key) => {
+      await rm(pathFor(key), { force: true });
+    },
+  };
+};
@@ -0,0 +1,9 @@
+export type {
+  CacheRecord,
+  CacheStore,
+  KeyValueAdapter,
+  KeyValueCacheStoreOptions,
+} from '../types.ts';
+export { createFileCacheStore } from './file.ts';
+export { createKeyValueCacheStore } from './key-value.ts';
+export { createMemoryCacheStore } from './memory.ts';
@@ -0,0 +1,28 @@
+import type {
+  CacheStore,
+  KeyValueAdapter,
+  KeyValueCacheStoreOptions,
+} from '../types.ts';
+import { deserializeRecord, serializeRecord } from './serialize.ts';
+
+const DEFAULT_PREFIX = 'promptly:';
+
+export const createKeyValueCacheStore = (
+  adapter: KeyValueAdapter,
+  options?: KeyValueCacheStoreOptions,
+): CacheStore => {
+  const prefix = options?.prefix ?? DEFAULT_PREFIX;
+
+  return {
+    get: async (key) => {
+      const raw = await adapter.get(`${prefix}${key}`);
+      return raw ? deserializeRecord(raw) : undefined;
+    },
+    set: async (key, record, ttl) => {
+      await adapter.set(`${prefix}${key}`, serializeRecord(record, ttl), ttl);
+    },
+    delete: async (key) => {
+      await adapter.delete(`${prefix}${key}`);
+    },
+  };
+};
@@ -0,0 +1,49 @@
+import type { CacheRecord, CacheStore } from '../types.ts';
+
+type StoredRecord = {
+  record: CacheRecord;
+  // Unix ms after which the store drops the record entirely
+  retainUntil: number | undefined;
+};
+
+// Map iteration order is insertion order, so re-inserting on read keeps the
+// least recently used entry at the front for eviction.
+export const createMemoryCacheStore = (maxEntries: number): CacheStore => {
+  const entries = new Map<string, StoredRecord>();
+
+  const get = (key: string): CacheRecord | undefined => {
+    const entry = entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    entries.delete(key);
+    if (entry.retainUntil !== undefined && entry.retainUntil <= Date.now()) {
+      return undefined;
+    }
+    entries.set(key, entry);
+    return entry.record;
+  };
+
+  const set = (key: string, record: CacheRecord, ttl?: number): void => {
+    entries.delete(key);
+    entries.set(key, {
+      record,
+      retainUntil: ttl === undefined ? undefined : Date.now() + ttl,
+    });
+    while (entries.size > maxEntries) {
+      const oldest = entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      entries.delete(oldest);
+    }
+  };
+
+  return {
+    get,
+    set,
+    delete: (key) => {
+      entries.delete(key);
+    },
+  };
+};
@@ -0,0 +1,48 @@
+import type {
+  CacheOptions,
+  CacheRecord,
+  CacheStore,
+  RevalidateEvent,
+} from '../types.ts';
+
+const DEFAULT_CACHE_TTL = 60_000;
+const DEFAULT_CACHE_MAX_ENTRIES = 500;
+const DEFAULT_CACHE_STALE_TTL = 24 * 60 * 60 * 1000;
+
+export type ResolvedCacheOptions = {
+  ttl: number;
+  maxEntries: number;
+  staleWhileRevalidate: boolean;
+  onRevalidate?: (event: RevalidateEvent) => void;
+  store?: CacheStore;
+  staleTtl: number;
+};
+
+export const resolveCacheOptions = (
+  options?: boolean | CacheOptions,
+): ResolvedCacheOptions | undefined => {
+  if (!options) {
+    return undefined;
+  }
+  const overrides = options === true ? {} : options;
+  return {
+    ttl: overrides.ttl ?? DEFAULT_CACHE_TTL,
+    maxEntries: overrides.maxEntries ?? DEFAULT_CACHE_MAX_ENTRIES,
+    staleWhileRevalidate: overrides.staleWhileRevalidate ?? false,
+    onRevalidate: overrides.onRevalidate,
+    store: overrides.store,
+    staleTtl: overrides.staleTtl ?? DEFAULT_CACHE_STALE_TTL,
+  };
+};
+
+export const isExpired = (record: CacheRecord): boolean =>
+  record.expiresAt !== undefined && record.expiresAt <= Date.now();
+
+export const isPinnedVersion = (version?: string): version is string =>
+  version !== undefined && version !== 'latest';
+
+export const cacheKey = (
+  kind: 'prompt' | 'composer',
+  id: string,
+  version?: string,
+): string => `${kind}:${id}@${version ?? 'latest'}`;
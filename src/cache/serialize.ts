@@ -0,0 +1,34 @@
+import type { CacheRecord } from '../types.ts';
+
+// Bumped whenever CacheRecord changes shape, so persisted entries written by
+// an older release are treated as misses instead of misread.
+const FORMAT = 1;
+
+type SerializedRecord = {
+  format: number;
+  record: CacheRecord;
+  // Unix ms after which the record should be dropped
+  retainUntil?: number;
+};
+
+export const serializeRecord = (record: CacheRecord, ttl?: number): string =>
+  JSON.stringify({
+    format: FORMAT,
+    record,
+    retainUntil: ttl === undefined ? undefined : Date.now() + ttl,
+  } satisfies SerializedRecord);
+
+export const deserializeRecord = (raw: string): CacheRecord | undefined => {
+  try {
+    const parsed = JSON.parse(raw) as SerializedRecord;
+    if (parsed.format !== FORMAT) {
+      return undefined;
+    }
+    if (parsed.retainUntil !== undefined && parsed.retainUntil <= Date.now()) {
+      return undefined;
+    }
+    return parsed.record;
+  } catch {
+    return undefined;
+  }
+};
@@ -0,0 +1,165 @@
+import { PromptlyError } from './errors.ts';
+import type {
+  CassetteInteraction,
+  CassetteOptions,
+  FetchFn,
+  PromptlyCassette,
+} from './types.ts';
+
+// Transport headers that would only make replayed responses inconsistent
+const SKIPPED_HEADERS = new Set([
+  'connection',
+  'content-encoding',
+  'content-length',
+  'date',
+  'keep-alive',
+  'set-cookie',
+  'transfer-encoding',
+]);
+
+export const resolveCassetteOptions = (
+  cassette: string | CassetteOptions,
+): Required<CassetteOptions> => {
+  const options = typeof cassette === 'string' ? { path: cassette } : cassette;
+  return {
+    path: options.path,
+    mode:
+      options.mode ??
+      (process.env.PROMPTLY_RECORD === '1' ? 'record' : 'replay'),
+  };
+};
+
+const cassetteError = (message: string): PromptlyError =>
+  new PromptlyError(message, 'BAD_REQUEST', 0);
+
+const requestOf = (
+  url: string,
+  init?: RequestInit,
+): CassetteInteraction['request'] => {
+  const { pathname, search } = new URL(url);
+  return { method: init?.method ?? 'GET', url: `${pathname}${search}` };
+};
+
+const isJson = (contentType: string | null | undefined): boolean =>
+  contentType?.includes('json') ?? false;
+
+const toInteraction = async (
+  request: CassetteInteraction['request'],
+  response: Response,
+): Promise<CassetteInteraction> => {
+  const headers: Record<string, string> = {};
+  response.headers.forEach((value, name) => {
+    if (!SKIPPED_HEADERS.has(name)) {
+      headers[name] = value;
+    }
+  });
+  const text = await response.clone().text();
+  let body: unknown = text || undefined;
+  if (text && isJson(headers['content-type'])) {
+    try {
+      body = JSON.parse(text);
+    } catch {
+      // Kept as text; the client reports the invalid JSON on replay too
+    }
+  }
+  return { request, response: { status: response.status, headers, body } };
+};
+
+const toResponse = ({ response }: CassetteInteraction): Response => {
+  const { body, headers, status } = response;
+  const text =
+    body === undefined
+      ? null
+      : typeof body === 'string' && !isJson(headers['content-type'])
+        ? body
+        : JSON.stringify(body);
+  return new Response(text, { status, headers });
+};
+
+const interactionKey = ({ method, url }: CassetteInteraction['request']) =>
+  `${method} ${url}`;
+
+const recordingFetch = (path: string, fetchImpl?: FetchFn): FetchFn => {
+  const cassette: PromptlyCassette = {
+    recordedAt: new Date().toISOString(),
+    interactions: [],
+  };
+  // Writes are chained so concurrent requests never interleave in the file
+  let saved = Promise.resolve();
+  const save = () => {
+    saved = saved.then(async () => {
+      // Loaded on first use so the client itself runs without Node built-ins
+      const [{ mkdir, writeFile }, { dirname }] = await Promise.all([
+        import('node:fs/promises'),
+        import('node:path'),
+      ]);
+      await mkdir(dirname(path), { recursive: true });
+      await writeFile(path, `${JSON.stringify(cassette, null, 2)}\n`, 'utf-8');
+    });
+    return saved;
+  };
+
+  return async (url, init) => {
+    const response = await (fetchImpl ?? fetch)(url, init);
+    cassette.interactions.push(
+      await toInteraction(requestOf(url, init), response),
+    );
+    await save();
+    return response;
+  };
+};
+
+const replayingFetch = (path: string): FetchFn => {
+  let loaded: Promise<Map<string, CassetteInteraction[]>> | undefined;
+  const replayed = new Map<string, number>();
+
+  const load = async () => {
+    const { readFile } = await import('node:fs/promises');
+    let cassette: PromptlyCassette;
+    try {
+      cassette = JSON.parse(await readFile(path, 'utf-8')) as PromptlyCassette;
+    } catch (error) {
+      throw cassetteError(
+        `Could not read cassette ${path} (${error instanceof Error ? error.message : String(error)}). Record it with PROMPTLY_RECORD=1.`,
+      );
+    }
+    const byKey = new Map<string, CassetteInteraction[]>();
+    for (const interaction of cassette.interactions ?? []) {
+      const key = interactionKey(interaction.request);
+      byKey.set(key, [...(byKey.get(key) ?? []), interaction]);
+    }
+    return byKey;
+  };
+
+  return async (url, init) => {
+    loaded ??= load();
+    const recorded = await loaded;
+    const key = interactionKey(requestOf(url, init));
+    const matches = recorded.get(key);
+    if (!matches) {
+      throw cassetteError(
+        `No recorded response for ${key} in cassette ${path}. Re-record it with PROMPTLY_RECORD=1.`,
+      );
+    }
+    // Repeated requests get the responses in recorded order, then the last
+    // one again
+    const index = replayed.get(key) ?? 0;
+    replayed.set(key, index + 1);
+    return toResponse(
+      matches[Math.min(index, matches.length - 1)] as CassetteInteraction,
+    );
+  };
+};
+
+// Wraps fetch so every API request and response is saved to a cassette
+// file, or answered from one; unmatched requests fail instead of reaching
+// the network.
+export const createCassetteFetch = (
+  cassette: string | CassetteOptions,
+  fetchImpl?: FetchFn,
+): FetchFn => {
+  const { path, mode } = resolveCassetteOptions(cassette);
+  return mode === 'record'
+    ? recordingFetch(path, fetchImpl)
+    : replayingFetch(path);
+};
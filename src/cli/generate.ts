@@ -1,11 +1,20 @@
 import { writeFile } from 'node:fs/promises';
 import { createRequire } from 'node:module';
+import { parseTemplateBlocks, type TemplateNode } from '../blocks.ts';
 import { detectProviderName, toCamelCase } from '../client.ts';
+import {
+  conditionalHeaders,
+  isNotModified,
+  toConditionalEntry,
+} from '../conditional.ts';
 import { createErrorFromResponse, PromptlyError } from '../errors.ts';
+import { parseVariablePath } from '../interpolate.ts';
 import type {
   ComposerResponse,
+  PromptlySource,
   PromptResponse,
   SchemaField,
+  TransportOptions,
 } from '../types.ts';
 
 const PROVIDER_PACKAGES: Record<string, string> = {
@@ -17,11 +26,76 @@ const PROVIDER_PACKAGES: Record<string, string> = {
 
 const DEFAULT_BASE_URL = 'https://api.promptlycms.com';
 
-export const extractTemplateVariables = (text: string): string[] => {
-  const matches = text.matchAll(/\$\{(\w+)\}/g);
+// `this` inside `{{#each items}}` refers to an item, typed as `items[0]`
+const scopedPath = (path: string, loop: string | undefined): string => {
+  if (!loop || !/^this(?:$|[.[])/.test(path)) {
+    return path;
+  }
+  return `${loop}[0]${path.slice('this'.length)}`;
+};
+
+// Marks each `{{#if}}` guard that covers the path, the way optional
+// chaining would: `user?.name` inside `{{#if user}}`
+const markOptional = (path: string, guards: string[]): string =>
+  guards
+    .filter(
+      (guard) =>
+        path === guard ||
+        path.startsWith(`${guard}.`) ||
+        path.startsWith(`${guard}[`),
+    )
+    .sort((a, b) => b.length - a.length)
+    .reduce(
+      (marked, guard) =>
+        `${marked.slice(0, guard.length)}?${marked.slice(guard.length)}`,
+      path,
+    );
+
+// Walks `{{#if}}` and `{{#each}}` sections: loop lists become array paths
+// and variables only used under an `{{#if}}` on themselves become optional
+const extractBlockVariables = (
+  text: string,
+  extractInline: (text: string) => string[],
+): string[] => {
+  const vars = new Set<string>();
+  const visit = (
+    nodes: TemplateNode[],
+    loop: string | undefined,
+    guards: string[],
+  ) => {
+    for (const node of nodes) {
+      if (typeof node === 'string') {
+        for (const v of extractInline(node)) {
+          vars.add(markOptional(scopedPath(v, loop), guards));
+        }
+        continue;
+      }
+      const path = scopedPath(node.path, loop);
+      if (node.block === 'if') {
+        vars.add(markOptional(path, [...guards, path]));
+        visit(node.body, loop, [...guards, path]);
+      } else {
+        vars.add(markOptional(`${path}[0]`, guards));
+        visit(node.body, path, guards);
+      }
+      visit(node.alternate, loop, guards);
+    }
+  };
+  visit(parseTemplateBlocks(text), undefined, []);
+  return [...vars];
+};
+
+// Names and paths such as `order.items[0].sku`, without any filters piped
+// after them
+const extractInlineTemplateVariables = (text: string): string[] => {
+  // Whitespace around the name is only trimmed when filters follow it,
+  // matching interpolate()
+  const matches = text.matchAll(
+    /\$\{(?:(\w+(?:\.\w+|\[\d+\])*)|\s*(\w+(?:\.\w+|\[\d+\])*)\s*\|[^}]*)\}/g,
+  );
   const vars = new Set<string>();
   for (const match of matches) {
-    const captured = match[1];
+    const captured = match[1] ?? match[2];
     if (captured) {
       vars.add(captured);
     }
@@ -29,16 +103,21 @@ export const extractTemplateVariables = (text: string): string[] => {
   return [...vars];
 };
 
+// Variables of a prompt template, including those in `{{#if}}` and
+// `{{#each}}` sections; optional ones carry a `?` after the guarded part
+export const extractTemplateVariables = (text: string): string[] =>
+  extractBlockVariables(text, extractInlineTemplateVariables);
+
 // Extracts variable names from static segment HTML content.
-// Mirrors the regex patterns in src/client.ts (VARIABLE_REF_REGEX, VARIABLE_REF_ALT_REGEX, MUSTACHE_REGEX).
-export const extractStaticSegmentVariables = (content: string): string[] => {
+// Mirrors the regex patterns in src/interpolate.ts (VARIABLE_REF_REGEX, VARIABLE_REF_ALT_REGEX, MUSTACHE_REGEX).
+const extractInlineStaticVariables = (content: string): string[] => {
   const vars = new Set<string>();
 
   const varRefRegex =
     /<span[^>]*\sdata-variable-ref(?:="[^"]*")?[^>]*\sdata-field-path="([^"]+)"[^>]*><\/span>/g;
   const varRefAltRegex =
     /<span[^>]*\sdata-field-path="([^"]+)"[^>]*\sdata-variable-ref(?:="[^"]*")?[^>]*><\/span>/g;
-  const mustacheRegex = /\{\{(\w[\w.]*)\}\}/g;
+  const mustacheRegex = /\{\{(\w[\w.[\]]*)(?:\s*\|[^}]*)?\}\}/g;
 
   for (const match of content.matchAll(varRefRegex)) {
     if (match[1]) {
@@ -59,45 +138,61 @@ export const extractStaticSegmentVariables = (content: string): string[] => {
   return [...vars];
 };
 
-export const fetchAllPrompts = async (
+export const extractStaticSegmentVariables = (content: string): string[] =>
+  extractBlockVariables(content, extractInlineStaticVariables);
+
+const fetchList = async <T>(
   apiKey: string,
+  path: string,
   baseUrl?: string,
-): Promise<PromptResponse[]> => {
-  const url = new URL('/prompts', baseUrl ?? DEFAULT_BASE_URL);
+  options?: TransportOptions,
+): Promise<T[]> => {
+  const url = new URL(path, baseUrl ?? DEFAULT_BASE_URL);
   url.searchParams.set('include_versions', 'true');
+  const key = url.toString();
+  const previous = options?.conditionalCache?.get(key);
 
-  const response = await fetch(url.toString(), {
+  const fetchImpl = options?.fetch ?? fetch;
+  const response = await fetchImpl(key, {
     headers: {
+      ...options?.headers,
+      ...conditionalHeaders(previous),
       Authorization: `Bearer ${apiKey}`,
     },
   });
 
+  if (isNotModified(response, previous)) {
+    options?.conditionalCache?.set(
+      key,
+      toConditionalEntry(previous.body, response.headers, previous),
+    );
+    return previous.body as T[];
+  }
   if (!response.ok) {
     throw await createErrorFromResponse(response);
   }
 
-  return response.json() as Promise<PromptResponse[]>;
+  const body = (await response.json()) as T[];
+  options?.conditionalCache?.set(
+    key,
+    toConditionalEntry(body, response.headers),
+  );
+  return body;
 };
 
-export const fetchAllComposers = async (
+export const fetchAllPrompts = (
   apiKey: string,
   baseUrl?: string,
-): Promise<ComposerResponse[]> => {
-  const url = new URL('/composers', baseUrl ?? DEFAULT_BASE_URL);
-  url.searchParams.set('include_versions', 'true');
-
-  const response = await fetch(url.toString(), {
-    headers: {
-      Authorization: `Bearer ${apiKey}`,
-    },
-  });
+  options?: TransportOptions,
+): Promise<PromptResponse[]> =>
+  fetchList<PromptResponse>(apiKey, '/prompts', baseUrl, options);
 
-  if (!response.ok) {
-    throw await createErrorFromResponse(response);
-  }
-
-  return response.json() as Promise<ComposerResponse[]>;
-};
+export const fetchAllComposers = (
+  apiKey: string,
+  baseUrl?: string,
+  options?: TransportOptions,
+): Promise<ComposerResponse[]> =>
+  fetchList<ComposerResponse>(apiKey, '/composers', baseUrl, options);
 
 export const extractComposerVariables = (
   composer: ComposerResponse,
@@ -291,6 +386,99 @@ const typePropertyKey = (key: string): string => {
   return `'${key.replaceAll('\\', '\\\\').replaceAll("'", "\\'")}'`;
 };
 
+type VariableTypeNode = {
+  properties: Map<string, VariableTypeNode>;
+  element?: VariableTypeNode;
+  // Set once any reference needs the property regardless of `{{#if}}`
+  required: boolean;
+};
+
+const createVariableTypeNode = (): VariableTypeNode => ({
+  properties: new Map(),
+  required: false,
+});
+
+const parsePathSegments = (path: string): (string | number)[] =>
+  parseVariablePath(path) ?? [path];
+
+// Splits `user?.name` into its path and the indexes of optional segments
+const parseOptionalPath = (
+  variable: string,
+): { path: string; optional: Set<number> } => {
+  const parts = variable.split('?');
+  const optional = new Set<number>();
+  let path = '';
+  for (const [index, part] of parts.entries()) {
+    path += part;
+    if (index < parts.length - 1) {
+      optional.add(parsePathSegments(path).length - 1);
+    }
+  }
+  return { path, optional };
+};
+
+// Nests variable paths, so `order.items[0].sku` becomes
+// `order: { items: { sku: string }[] }`; a property stays optional only
+// when every reference marks it so
+const buildVariableTree = (variables: string[]): VariableTypeNode => {
+  const root = createVariableTypeNode();
+  for (const variable of variables) {
+    const { path, optional } = parseOptionalPath(variable);
+    let node = root;
+    for (const [index, segment] of parsePathSegments(path).entries()) {
+      if (typeof segment === 'number') {
+        node.element ??= createVariableTypeNode();
+        node = node.element;
+        continue;
+      }
+      let child = node.properties.get(segment);
+      if (!child) {
+        child = createVariableTypeNode();
+        node.properties.set(segment, child);
+      }
+      child.required ||= !optional.has(index);
+      node = child;
+    }
+  }
+  return root;
+};
+
+const variableNodeType = (
+  node: VariableTypeNode,
+  indent: string,
+  leafType: string,
+): string => {
+  if (node.element) {
+    return `${variableNodeType(node.element, indent, 'string')}[]`;
+  }
+  if (node.properties.size === 0) {
+    return leafType;
+  }
+  const properties = variablePropertyLines(node, `${indent}  `);
+  return `{\n${properties.join('\n')}\n${indent}}`;
+};
+
+// Schema fields only describe top-level variables; nested leaves are strings
+const variablePropertyLines = (
+  node: VariableTypeNode,
+  indent: string,
+  schemaMap?: Map<string, SchemaField>,
+): string[] =>
+  [...node.properties].map(([name, child]) => {
+    const leafType = schemaMap
+      ? schemaFieldToTsType(schemaMap.get(name))
+      : 'string';
+    const key = `${typePropertyKey(name)}${child.required ? '' : '?'}`;
+    return `${indent}${key}: ${variableNodeType(child, indent, leafType)};`;
+  });
+
+const variableTypeLines = (
+  variables: string[],
+  indent: string,
+  schemaMap: Map<string, SchemaField>,
+): string[] =>
+  variablePropertyLines(buildVariableTree(variables), indent, schemaMap);
+
 const generateMappedTypeBlock = (
   group: VersionGroup,
   indent: string,
@@ -305,11 +493,7 @@ const generateMappedTypeBlock = (
       lines.push(`${indent}[V in ${vKey}]: Record<string, never>;`);
     } else {
       lines.push(`${indent}[V in ${vKey}]: {`);
-      for (const v of variables) {
-        lines.push(
-          `${indent}  ${v}: ${schemaFieldToTsType(schemaMap.get(v))};`,
-        );
-      }
+      lines.push(...variableTypeLines(variables, `${indent}  `, schemaMap));
       lines.push(`${indent}};`);
     }
   } else {
@@ -328,11 +512,7 @@ const generateMappedTypeBlock = (
       }
     }
     if (variables.length > 0) {
-      for (const v of variables) {
-        lines.push(
-          `${indent}  ${v}: ${schemaFieldToTsType(schemaMap.get(v))};`,
-        );
-      }
+      lines.push(...variableTypeLines(variables, `${indent}  `, schemaMap));
       lines.push(`${indent}};`);
     }
   }
@@ -403,9 +583,7 @@ export const generateTypeDeclaration = (
         lines.push(`      [V in ${versions[0]}]: Record<string, never>;`);
       } else {
         lines.push(`      [V in ${versions[0]}]: {`);
-        for (const v of variables) {
-          lines.push(`        ${v}: ${schemaFieldToTsType(schemaMap.get(v))};`);
-        }
+        lines.push(...variableTypeLines(variables, '        ', schemaMap));
         lines.push('      };');
       }
     } else {
@@ -414,9 +592,7 @@ export const generateTypeDeclaration = (
         lines.push(`      [V in ${versionUnion}]: Record<string, never>;`);
       } else {
         lines.push(`      [V in ${versionUnion}]: {`);
-        for (const v of variables) {
-          lines.push(`        ${v}: ${schemaFieldToTsType(schemaMap.get(v))};`);
-        }
+        lines.push(...variableTypeLines(variables, '        ', schemaMap));
         lines.push('      };');
       }
     }
@@ -498,14 +674,33 @@ const warnMissingProviders = (
   }
 };
 
+const writeDeclarations = async (
+  prompts: PromptResponse[],
+  composers: ComposerResponse[],
+  outputPath: string,
+): Promise<void> => {
+  if (prompts.length > 0) {
+    console.log(`  Found ${prompts.length} prompt(s)`);
+  }
+  if (composers.length > 0) {
+    console.log(`  Found ${composers.length} composer(s)`);
+  }
+  warnMissingProviders(prompts, composers);
+
+  const content = generateTypeDeclaration(prompts, composers);
+  await writeFile(outputPath, content, 'utf-8');
+  console.log(`  Generated ${outputPath}`);
+};
+
 export const generate = async (
   apiKey: string,
   outputPath: string,
   baseUrl?: string,
+  options?: TransportOptions,
 ): Promise<void> => {
   const [prompts, composers] = await Promise.all([
-    fetchAllPrompts(apiKey, baseUrl),
-    fetchAllComposers(apiKey, baseUrl).catch((err) => {
+    fetchAllPrompts(apiKey, baseUrl, options),
+    fetchAllComposers(apiKey, baseUrl, options).catch((err) => {
       if (err instanceof PromptlyError) {
         console.warn(
           `  Warning: failed to fetch composers (${err.code}, HTTP ${err.status}): ${err.message}`,
@@ -525,15 +720,23 @@ export const generate = async (
     return;
   }
 
-  if (prompts.length > 0) {
-    console.log(`  Found ${prompts.length} prompt(s)`);
-  }
-  if (composers.length > 0) {
-    console.log(`  Found ${composers.length} composer(s)`);
+  await writeDeclarations(prompts, composers, outputPath);
+};
+
+// Same output as generate(), from local files or any other source
+export const generateFromSource = async (
+  source: PromptlySource,
+  outputPath: string,
+): Promise<void> => {
+  const [prompts, composers] = await Promise.all([
+    source.listPrompts(),
+    source.listComposers(),
+  ]);
+
+  if (prompts.length === 0 && composers.length === 0) {
+    console.log('  No prompts or composers found in the source.');
+    return;
   }
-  warnMissingProviders(prompts, composers);
 
-  const content = generateTypeDeclaration(prompts, composers);
-  await writeFile(outputPath, content, 'utf-8');
-  console.log(`  Generated ${outputPath}`);
+  await writeDeclarations(prompts, composers, outputPath);
 };
@@ -1,8 +1,12 @@
 import { existsSync, readFileSync } from 'node:fs';
 import { resolve } from 'node:path';
 import { defineCommand, runMain } from 'citty';
+import { createCassetteFetch, resolveCassetteOptions } from '../cassette.ts';
 import { PromptlyError } from '../errors.ts';
-import { generate } from './generate.ts';
+import { fileSource } from '../source/file.ts';
+import { createPromptlyTestServer } from '../testing/server.ts';
+import { generate, generateFromSource } from './generate.ts';
+import { pull } from './pull.ts';
 
 const detectOutputPath = (): string => {
   const candidates = ['src/types', 'types'];
@@ -47,6 +51,21 @@ const loadEnvFile = (): void => {
 
 loadEnvFile();
 
+const cassetteArg = {
+  type: 'string',
+  description:
+    'Replay API responses from this cassette file, or record them with PROMPTLY_RECORD=1',
+} as const;
+
+// Replaying never reaches the API, so it needs no API key
+const isReplaying = (cassette: string | undefined): boolean =>
+  !!cassette && resolveCassetteOptions(cassette).mode === 'replay';
+
+const cassetteTransport = (cassette: string | undefined) =>
+  cassette
+    ? { fetch: createCassetteFetch(resolve(process.cwd(), cassette)) }
+    : undefined;
+
 const formatPromptlyError = (error: PromptlyError): void => {
   const errorMessages: Record<string, string> = {
     NOT_FOUND:
@@ -68,6 +87,9 @@ const formatPromptlyError = (error: PromptlyError): void => {
     if (error.usage) {
       console.error(`Usage: ${JSON.stringify(error.usage)}`);
     }
+    if (error.resetAt) {
+      console.error(`Quota resets at: ${error.resetAt.toISOString()}`);
+    }
     if (error.upgradeUrl) {
       console.error(`Upgrade your plan: ${error.upgradeUrl}`);
     }
@@ -96,14 +118,24 @@ const generateCommand = defineCommand({
       type: 'string',
       description: 'API key (defaults to PROMPTLY_API_KEY env var)',
     },
+    'base-url': {
+      type: 'string',
+      description: 'API base URL (defaults to PROMPTLY_BASE_URL env var)',
+    },
+    source: {
+      type: 'string',
+      description:
+        'Read prompts and composers from this directory instead of the API',
+    },
+    cassette: cassetteArg,
   },
   run: async ({ args }) => {
     console.log('@promptlycms/prompts — generating...\n');
 
     const apiKey = args['api-key'] ?? process.env.PROMPTLY_API_KEY;
-    if (!apiKey) {
+    if (!apiKey && !args.source && !isReplaying(args.cassette)) {
       console.error(
-        'Error: No API key provided. Set PROMPTLY_API_KEY or pass --api-key.',
+        'Error: No API key provided. Set PROMPTLY_API_KEY, pass --api-key, or generate from local files with --source.',
       );
       process.exit(1);
     }
@@ -111,7 +143,74 @@ const generateCommand = defineCommand({
     const outputPath = args.output ?? detectOutputPath();
 
     try {
-      await generate(apiKey, outputPath);
+      if (args.source) {
+        await generateFromSource(
+          fileSource(resolve(process.cwd(), args.source)),
+          outputPath,
+        );
+      } else {
+        await generate(
+          apiKey ?? '',
+          outputPath,
+          args['base-url'] ?? process.env.PROMPTLY_BASE_URL,
+          cassetteTransport(args.cassette),
+        );
+      }
+      console.log('\nDone!');
+    } catch (error) {
+      if (error instanceof PromptlyError) {
+        formatPromptlyError(error);
+      } else {
+        console.error(
+          `Error: ${error instanceof Error ? error.message : String(error)}`,
+        );
+      }
+      process.exit(1);
+    }
+  },
+});
+
+const pullCommand = defineCommand({
+  meta: {
+    name: 'pull',
+    description:
+      'Download all prompts and composers to a JSON snapshot for offline fallback',
+  },
+  args: {
+    output: {
+      type: 'string',
+      description: 'Output path for the snapshot file',
+      alias: 'o',
+      default: 'promptly-snapshot.json',
+    },
+    'api-key': {
+      type: 'string',
+      description: 'API key (defaults to PROMPTLY_API_KEY env var)',
+    },
+    'base-url': {
+      type: 'string',
+      description: 'API base URL (defaults to PROMPTLY_BASE_URL env var)',
+    },
+    cassette: cassetteArg,
+  },
+  run: async ({ args }) => {
+    console.log('@promptlycms/prompts — pulling...\n');
+
+    const apiKey = args['api-key'] ?? process.env.PROMPTLY_API_KEY;
+    if (!apiKey && !isReplaying(args.cassette)) {
+      console.error(
+        'Error: No API key provided. Set PROMPTLY_API_KEY or pass --api-key.',
+      );
+      process.exit(1);
+    }
+
+    try {
+      await pull(
+        apiKey ?? '',
+        resolve(process.cwd(), args.output),
+        args['base-url'] ?? process.env.PROMPTLY_BASE_URL,
+        cassetteTransport(args.cassette),
+      );
       console.log('\nDone!');
     } catch (error) {
       if (error instanceof PromptlyError) {
@@ -126,6 +225,65 @@ const generateCommand = defineCommand({
   },
 });
 
+const serveCommand = defineCommand({
+  meta: {
+    name: 'serve',
+    description:
+      'Serve fixture files over a local stand-in for the Promptly API, for tests and CI',
+  },
+  args: {
+    fixtures: {
+      type: 'string',
+      description: 'Directory with prompts/ and composers/ fixture files',
+      required: true,
+    },
+    port: {
+      type: 'string',
+      description: 'Port to listen on',
+      default: '4010',
+    },
+    hostname: {
+      type: 'string',
+      description: 'Hostname to listen on',
+      default: '127.0.0.1',
+    },
+    'api-key': {
+      type: 'string',
+      description: 'Only accept this API key (default: any key)',
+    },
+  },
+  run: async ({ args }) => {
+    const port = Number(args.port);
+    if (!Number.isInteger(port) || port < 0) {
+      console.error(`Error: Invalid port "${args.port}".`);
+      process.exit(1);
+    }
+
+    try {
+      const server = await createPromptlyTestServer({
+        fixtures: resolve(process.cwd(), args.fixtures),
+        apiKey: args['api-key'],
+        port,
+        hostname: args.hostname,
+      });
+      console.log(`@promptlycms/prompts — serving ${args.fixtures}\n`);
+      console.log(`  Listening on ${server.url}`);
+      console.log(`  Set PROMPTLY_BASE_URL=${server.url} to use it`);
+
+      const stop = () => {
+        server.close().then(() => process.exit(0));
+      };
+      process.once('SIGINT', stop);
+      process.once('SIGTERM', stop);
+    } catch (error) {
+      console.error(
+        `Error: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      process.exit(1);
+    }
+  },
+});
+
 const main = defineCommand({
   meta: {
     name: 'promptly',
@@ -134,6 +292,8 @@ const main = defineCommand({
   },
   subCommands: {
     generate: generateCommand,
+    pull: pullCommand,
+    serve: serveCommand,
   },
 });
 
@@ -0,0 +1,35 @@
+import { writeFile } from 'node:fs/promises';
+import type { PromptlySnapshot, TransportOptions } from '../types.ts';
+import { fetchAllComposers, fetchAllPrompts } from './generate.ts';
+
+export const pull = async (
+  apiKey: string,
+  outputPath: string,
+  baseUrl?: string,
+  options?: TransportOptions,
+): Promise<PromptlySnapshot> => {
+  // Unlike generate, a partial snapshot would silently break the fallback,
+  // so a failed composer fetch fails the whole pull.
+  const [prompts, composers] = await Promise.all([
+    fetchAllPrompts(apiKey, baseUrl, options),
+    fetchAllComposers(apiKey, baseUrl, options),
+  ]);
+
+  const snapshot: PromptlySnapshot = {
+    pulledAt: new Date().toISOString(),
+    prompts,
+    composers,
+  };
+
+  await writeFile(
+    outputPath,
+    `${JSON.stringify(snapshot, null, 2)}\n`,
+    'utf-8',
+  );
+  console.log(
+    `  Pulled ${prompts.length} prompt(s) and ${composers.length} composer(s)`,
+  );
+  console.log(`  Wrote ${outputPath}`);
+
+  return snapshot;
+};
@@ -1,18 +1,65 @@
-import { createErrorFromResponse, PromptlyError } from './errors.ts';
+import { createMemoryCacheStore } from './cache/memory.ts';
+import {
+  cacheKey,
+  isExpired,
+  isPinnedVersion,
+  resolveCacheOptions,
+} from './cache/options.ts';
+import { createCassetteFetch, resolveCassetteOptions } from './cassette.ts';
+import { createRequestCoalescer } from './coalesce.ts';
+import {
+  conditionalHeaders,
+  isNotModified,
+  toConditionalEntry,
+} from './conditional.ts';
+import {
+  createErrorFromResponse,
+  createNetworkError,
+  isNotFoundError,
+  PromptlyError,
+} from './errors.ts';
+import {
+  checkVariables,
+  createInterpolationReport,
+  renderStaticSegment,
+  renderTemplate,
+} from './interpolate.ts';
+import { createRateLimitTracker } from './rate-limit.ts';
+import { resolveRetryOptions, withRetry } from './retry.ts';
+import {
+  findSnapshotComposer,
+  findSnapshotPrompt,
+  isFallbackError,
+} from './snapshot.ts';
+import { targetAttributes, withSpan } from './tracing.ts';
 import type {
+  BatchOptions,
+  CacheRecord,
+  CacheStatus,
   ComposerGenerateFn,
   ComposerPrompt,
   ComposerRequest,
   ComposerResponse,
+  ConditionalEntry,
   FormatInput,
   GetComposerOptions,
   GetOptions,
+  HookTarget,
+  PreloadFailure,
+  PreloadReport,
+  PreloadRequest,
   PromptlyClient,
   PromptlyClientConfig,
+  PromptlySnapshot,
   PromptMessage,
   PromptRequest,
   PromptResponse,
+  ResponseHookContext,
+  StrictOptions,
+  TemplateFilter,
+  WatchSubscribeOptions,
 } from './types.ts';
+import { createPollLoop, resolveWatchOptions } from './watch.ts';
 
 const DEFAULT_BASE_URL = 'https://api.promptlycms.com';
 
@@ -98,20 +145,18 @@ export const resolveModel = async (
   }
 };
 
-export const interpolate = (
+const createPromptMessage = (
   template: string,
-  variables: Record<string, unknown>,
-): string => {
-  let result = template;
-  for (const [key, value] of Object.entries(variables)) {
-    result = result.replaceAll(`\${${key}}`, String(value));
-  }
-  return result;
-};
-
-const createPromptMessage = (template: string): PromptMessage => {
-  const fn = (variables: Record<string, unknown>): string =>
-    interpolate(template, variables);
+  strict: boolean | StrictOptions | undefined,
+  label: string,
+  filters?: Record<string, TemplateFilter>,
+): PromptMessage => {
+  const fn = (variables: Record<string, unknown>): string => {
+    const report = createInterpolationReport();
+    const result = renderTemplate(template, variables, report, filters);
+    checkVariables(report, variables, strict, label);
+    return result;
+  };
   fn.toString = () => template;
   return fn as PromptMessage;
 };
@@ -123,9 +168,11 @@ const PROVIDER_PACKAGES: Record<string, string> = {
   mistral: '@ai-sdk/mistral',
 };
 
-const createModelResolver = (
+type ModelResolver = (modelId: string) => Promise<import('ai').LanguageModel>;
+
+const createBaseModelResolver = (
   config?: PromptlyClientConfig,
-): ((modelId: string) => Promise<import('ai').LanguageModel>) => {
+): ModelResolver => {
   if (config?.model) {
     const userResolver = config.model;
     return async (modelId: string) => userResolver(modelId);
@@ -151,19 +198,32 @@ const createModelResolver = (
   };
 };
 
+const createModelResolver = (config?: PromptlyClientConfig): ModelResolver => {
+  const resolve = createBaseModelResolver(config);
+  const onModelResolved = config?.hooks?.onModelResolved;
+
+  return (modelId: string) =>
+    withSpan(
+      'promptly.resolveModel',
+      { 'promptly.model': modelId },
+      async () => {
+        const startedAt = performance.now();
+        const model = await resolve(modelId);
+        await onModelResolved?.({
+          modelId,
+          model,
+          latencyMs: performance.now() - startedAt,
+        });
+        return model;
+      },
+    );
+};
+
 export const toCamelCase = (name: string): string =>
   name
     .replace(/[^a-zA-Z0-9]+(.)/g, (_, char: string) => char.toUpperCase())
     .replace(/^[A-Z]/, (char) => char.toLowerCase());
 
-const VARIABLE_REF_REGEX =
-  /<span[^>]*\sdata-variable-ref(?:="[^"]*")?[^>]*\sdata-field-path="([^"]+)"[^>]*><\/span>/g;
-
-const VARIABLE_REF_ALT_REGEX =
-  /<span[^>]*\sdata-field-path="([^"]+)"[^>]*\sdata-variable-ref(?:="[^"]*")?[^>]*><\/span>/g;
-
-const MUSTACHE_REGEX = /\{\{(\w[\w.]*)\}\}/g;
-
 const EMPTY_PARAGRAPH_REGEX = /<p(\s[^>]*)?>\s*<\/p>/gi;
 
 const preserveEmptyParagraphs = (content: string): string =>
@@ -214,118 +274,462 @@ const shouldPrefixStandalonePromptText = (
   );
 };
 
-export const interpolateStaticSegment = (
-  content: string,
-  input: Record<string, unknown>,
-): string => {
-  let result = content;
+type CachedResponse = PromptResponse | ComposerResponse;
 
-  // Replace <span data-variable-ref data-field-path="X"></span> (both attribute orderings)
-  result = result.replace(VARIABLE_REF_REGEX, (_, fieldPath: string) =>
-    fieldPath in input ? String(input[fieldPath]) : '',
-  );
-  result = result.replace(VARIABLE_REF_ALT_REGEX, (_, fieldPath: string) =>
-    fieldPath in input ? String(input[fieldPath]) : '',
-  );
-
-  // Replace {{fieldPath}} mustache patterns
-  result = result.replace(MUSTACHE_REGEX, (_, fieldPath: string) =>
-    fieldPath in input ? String(input[fieldPath]) : '',
-  );
+type RequestOptions = {
+  version?: string;
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+};
 
-  return result;
+type Lookup<T> = {
+  response: T;
+  cacheStatus: CacheStatus;
 };
 
 export const createPromptlyClient = (
   config?: PromptlyClientConfig,
 ): PromptlyClient => {
   const apiKey = config?.apiKey ?? process.env.PROMPTLY_API_KEY;
-  if (!apiKey) {
+  const source = config?.source;
+  // Replaying a cassette never reaches the API, so it needs no key either
+  const replaying =
+    !!config?.cassette &&
+    resolveCassetteOptions(config.cassette).mode === 'replay';
+  if (!apiKey && !replaying && (!source || source.fallbackToApi)) {
     throw new PromptlyError(
       'Missing API key. Pass { apiKey } to createPromptlyClient() or set PROMPTLY_API_KEY environment variable.',
       'UNAUTHORIZED',
       0,
     );
   }
-  const baseUrl = config?.baseUrl ?? DEFAULT_BASE_URL;
+  const baseUrl =
+    config?.baseUrl ?? process.env.PROMPTLY_BASE_URL ?? DEFAULT_BASE_URL;
+  const cassetteFetch = config?.cassette
+    ? createCassetteFetch(config.cassette, config.fetch)
+    : undefined;
   const modelResolver = createModelResolver(config);
+  const retryOptions = resolveRetryOptions(config?.retry);
+  const rateLimit = createRateLimitTracker(
+    config?.rateLimitThresholds,
+    config?.onRateLimit,
+  );
+  const cacheOptions = resolveCacheOptions(config?.cache);
+  // Raw API responses are cached so model resolution and input
+  // interpolation still run on every call.
+  const cache = cacheOptions
+    ? (cacheOptions.store ?? createMemoryCacheStore(cacheOptions.maxEntries))
+    : undefined;
 
-  const fetchPrompt = async (
-    promptId: string,
-    options?: GetOptions,
-  ): Promise<PromptResponse> => {
-    const url = new URL(`/prompts/${promptId}`, baseUrl);
-    if (options?.version) {
-      url.searchParams.set('version', options.version);
+  // A cache outage degrades to fetching from the API rather than failing
+  const readCache = async (key: string): Promise<CacheRecord | undefined> => {
+    try {
+      return await cache?.get(key);
+    } catch {
+      return undefined;
+    }
+  };
+
+  const writeCache = async (
+    key: string,
+    type: 'prompt' | 'composer',
+    entry: ConditionalEntry<CachedResponse>,
+    version?: string,
+  ): Promise<void> => {
+    if (!cache || !cacheOptions) {
+      return;
     }
+    const pinned = isPinnedVersion(version);
+    const record: CacheRecord = {
+      ...entry,
+      type,
+      version: entry.body.version,
+      expiresAt: pinned ? undefined : Date.now() + cacheOptions.ttl,
+    };
+    try {
+      await cache.set(
+        key,
+        record,
+        pinned ? undefined : cacheOptions.ttl + cacheOptions.staleTtl,
+      );
+    } catch {
+      // The fresh response is still returned; the next read refetches
+    }
+  };
+
+  // Identical concurrent fetches share one request whether or not caching is
+  // enabled. Keys include the base URL as well as the ID and version.
+  const inFlight = createRequestCoalescer();
+  const inFlightKey = (
+    type: 'prompt' | 'composer',
+    id: string,
+    version?: string,
+  ): string => `${baseUrl} ${cacheKey(type, id, version)}`;
+
+  // Background refreshes in flight, keyed like the cache so concurrent stale
+  // reads of the same entry trigger a single request.
+  const revalidating = new Map<string, Promise<void>>();
 
-    const response = await fetch(url.toString(), {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
+  const revalidate = (
+    type: 'prompt' | 'composer',
+    id: string,
+    key: string,
+    previous: CachedResponse,
+    load: () => Promise<CachedResponse>,
+  ): void => {
+    if (revalidating.has(key)) {
+      return;
+    }
+    const task = load()
+      .then((fresh) => {
+        cacheOptions?.onRevalidate?.({
+          type,
+          id,
+          previousVersion: previous.version,
+          version: fresh.version,
+        });
+      })
+      .catch(() => {
+        // Keep serving the stale entry; the next read retries the refresh
+      })
+      .finally(() => {
+        revalidating.delete(key);
+      });
+    revalidating.set(key, task);
+  };
+
+  const readThrough = async <T extends CachedResponse>(
+    type: 'prompt' | 'composer',
+    id: string,
+    options: RequestOptions | undefined,
+    load: (
+      signal?: AbortSignal,
+      previous?: ConditionalEntry<T>,
+    ) => Promise<ConditionalEntry<T>>,
+  ): Promise<Lookup<T>> => {
+    if (!cache) {
+      const { body } = await load(options?.signal);
+      return { response: body, cacheStatus: 'disabled' };
+    }
+
+    const key = cacheKey(type, id, options?.version);
+    // Even expired or bypassed entries carry validators, so every refresh
+    // is a conditional request that reuses the cached body on 304.
+    const entry = (await readCache(key)) as
+      | (CacheRecord & ConditionalEntry<T>)
+      | undefined;
+    // Background refreshes are shared between callers, so they never
+    // inherit the signal of the call that triggered them.
+    const loadAndStore = async (signal?: AbortSignal): Promise<T> => {
+      const fresh = await load(signal, entry);
+      await writeCache(key, type, fresh, options?.version);
+      return fresh.body;
+    };
+
+    if (options?.bypassCache) {
+      return {
+        response: await loadAndStore(options.signal),
+        cacheStatus: 'bypass',
+      };
+    }
+    if (entry && !isExpired(entry)) {
+      return { response: entry.body, cacheStatus: 'hit' };
+    }
+    if (entry && cacheOptions?.staleWhileRevalidate) {
+      revalidate(type, id, key, entry.body, () => loadAndStore());
+      return { response: entry.body, cacheStatus: 'stale' };
+    }
+    return {
+      response: await loadAndStore(options?.signal),
+      cacheStatus: 'miss',
+    };
+  };
+
+  // List requests have no single target, so they skip onRequest
+  const requestJson = <T>(
+    target: HookTarget | undefined,
+    url: URL,
+    signal?: AbortSignal,
+    previous?: ConditionalEntry<T>,
+  ): Promise<ConditionalEntry<T>> =>
+    withSpan(
+      'promptly.fetch',
+      {
+        ...(target && targetAttributes(target)),
+        'http.request.method': 'GET',
       },
-    });
+      async (span) => {
+        const timeoutSignal =
+          config?.timeoutMs === undefined
+            ? undefined
+            : AbortSignal.timeout(config.timeoutMs);
+        const signals = [signal, timeoutSignal].filter(
+          (s): s is AbortSignal => s !== undefined,
+        );
 
-    if (!response.ok) {
-      throw await createErrorFromResponse(response);
+        try {
+          const headers: Record<string, string> = {
+            ...config?.headers,
+            ...conditionalHeaders(previous),
+            Authorization: `Bearer ${apiKey}`,
+          };
+          if (target) {
+            await config?.hooks?.onRequest?.({ ...target, url, headers });
+          }
+          span.setAttributes({ 'url.full': url.toString() });
+
+          const fetchImpl = cassetteFetch ?? config?.fetch ?? fetch;
+          const response = await fetchImpl(url.toString(), {
+            headers,
+            signal: signals.length > 1 ? AbortSignal.any(signals) : signals[0],
+          }).catch((error: unknown) => {
+            throw createNetworkError(error);
+          });
+          span.setAttributes({ 'http.response.status_code': response.status });
+          rateLimit.track(response.headers);
+
+          if (isNotModified(response, previous)) {
+            return toConditionalEntry(
+              previous.body,
+              response.headers,
+              previous,
+            );
+          }
+          if (!response.ok) {
+            throw await createErrorFromResponse(response);
+          }
+
+          return toConditionalEntry(
+            (await response.json()) as T,
+            response.headers,
+          );
+        } catch (error) {
+          if (signal?.aborted) {
+            throw new PromptlyError('Request was aborted.', 'ABORTED', 0);
+          }
+          if (timeoutSignal?.aborted) {
+            throw new PromptlyError(
+              `Request timed out after ${config?.timeoutMs}ms.`,
+              'TIMEOUT',
+              0,
+            );
+          }
+          throw error;
+        }
+      },
+    );
+
+  // A pinned version is only served when it is the snapshot's own version;
+  // publishedVersions carries just the user message of older ones
+  const withFallback = async <T extends CachedResponse>(
+    request: Promise<Lookup<T>>,
+    find: (snapshot: PromptlySnapshot) => T | undefined,
+    version?: string,
+  ): Promise<Lookup<T>> => {
+    try {
+      return await request;
+    } catch (error) {
+      const snapshot = config?.fallback;
+      const fallback =
+        snapshot && isFallbackError(error) ? find(snapshot) : undefined;
+      const pinned = version !== undefined && version !== 'latest';
+      if (!fallback || (pinned && fallback.version !== version)) {
+        throw error;
+      }
+      return { response: fallback, cacheStatus: 'fallback' };
+    }
+  };
+
+  // Wraps a whole lookup, so latency includes retries and cache status
+  // reflects what the caller actually received.
+  const withHooks = async <T extends CachedResponse>(
+    target: HookTarget,
+    lookup: () => Promise<Lookup<T>>,
+  ): Promise<T> => {
+    const hooks = config?.hooks;
+    const startedAt = performance.now();
+    let result: Lookup<T>;
+    try {
+      result = await lookup();
+    } catch (error) {
+      await hooks?.onError?.({
+        ...target,
+        error,
+        latencyMs: performance.now() - startedAt,
+      });
+      throw error;
+    }
+    if (!hooks?.onResponse) {
+      return result.response;
     }
 
-    return response.json() as Promise<PromptResponse>;
+    const transformed = await hooks.onResponse({
+      ...target,
+      response: result.response,
+      cacheStatus: result.cacheStatus,
+      latencyMs: performance.now() - startedAt,
+    } as ResponseHookContext);
+    return (transformed ?? result.response) as T;
   };
 
-  const getPrompt = async <T extends string, V extends string = 'latest'>(
-    promptId: T,
-    options?: GetOptions<V>,
+  // Loads one prompt or composer from the configured source, or from the
+  // API with retries when there is none or the source falls back to it
+  const requestTarget = async <T extends CachedResponse>(
+    target: HookTarget,
+    signal: AbortSignal,
+    previous?: ConditionalEntry<T>,
+  ): Promise<ConditionalEntry<T>> => {
+    if (source) {
+      try {
+        const body =
+          target.type === 'prompt'
+            ? await source.getPrompt(target.id, target.version)
+            : await source.getComposer(target.id, target.version);
+        return { body: body as T };
+      } catch (error) {
+        if (!source.fallbackToApi || !isNotFoundError(error)) {
+          throw error;
+        }
+      }
+    }
+    return withRetry(
+      () => {
+        const url = new URL(`/${target.type}s/${target.id}`, baseUrl);
+        if (target.version) {
+          url.searchParams.set('version', target.version);
+        }
+        return requestJson<T>(target, url, signal, previous);
+      },
+      retryOptions,
+      signal,
+    );
+  };
+
+  const lookupPrompt = (
+    promptId: string,
+    options?: GetOptions,
+  ): Promise<Lookup<PromptResponse>> =>
+    readThrough('prompt', promptId, options, (signal, previous) =>
+      inFlight.run(
+        inFlightKey('prompt', promptId, options?.version),
+        (shared) =>
+          requestTarget(
+            { type: 'prompt', id: promptId, version: options?.version },
+            shared,
+            previous,
+          ),
+        signal,
+      ),
+    );
+
+  const fetchPrompt = (
+    promptId: string,
+    options?: GetOptions,
+  ): Promise<PromptResponse> =>
+    withHooks({ type: 'prompt', id: promptId, version: options?.version }, () =>
+      withFallback(
+        lookupPrompt(promptId, options),
+        (snapshot) => findSnapshotPrompt(snapshot, promptId),
+        options?.version,
+      ),
+    );
+
+  const buildPrompt = async (
+    response: PromptResponse,
+    strict = config?.strict,
   ) => {
-    const response = await fetchPrompt(promptId, options);
     const model = await modelResolver(response.config.model);
     return {
       ...response,
-      userMessage: createPromptMessage(response.userMessage),
+      userMessage: createPromptMessage(
+        response.userMessage,
+        strict,
+        `prompt "${response.promptId}"`,
+        config?.filters,
+      ),
       temperature: response.config.temperature,
       model,
     };
   };
 
-  const getPrompts = async (entries: readonly PromptRequest[]) => {
+  const getPrompt = <T extends string, V extends string = 'latest'>(
+    promptId: T,
+    options?: GetOptions<V>,
+  ) =>
+    withSpan(
+      'promptly.getPrompt',
+      targetAttributes({
+        type: 'prompt',
+        id: promptId,
+        version: options?.version,
+      }),
+      async (span) => {
+        const response = await fetchPrompt(promptId, options);
+        span.setAttributes({
+          'promptly.version': response.version,
+          'promptly.model': response.config.model,
+        });
+        return buildPrompt(response, options?.strict ?? config?.strict);
+      },
+    );
+
+  const getPrompts = async (
+    entries: readonly PromptRequest[],
+    options?: BatchOptions,
+  ) => {
     const results = await Promise.all(
       entries.map((entry) =>
-        getPrompt(entry.promptId, { version: entry.version }),
+        getPrompt(entry.promptId, {
+          version: entry.version,
+          signal: options?.signal,
+        }),
       ),
     );
     return results;
   };
 
-  const fetchComposer = async (
+  const lookupComposer = (
     composerId: string,
-    options?: { version?: string },
-  ): Promise<ComposerResponse> => {
-    const url = new URL(`/composers/${composerId}`, baseUrl);
-    if (options?.version) {
-      url.searchParams.set('version', options.version);
-    }
-
-    const response = await fetch(url.toString(), {
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-      },
-    });
-
-    if (!response.ok) {
-      throw await createErrorFromResponse(response);
-    }
+    options?: RequestOptions,
+  ): Promise<Lookup<ComposerResponse>> =>
+    readThrough('composer', composerId, options, (signal, previous) =>
+      inFlight.run(
+        inFlightKey('composer', composerId, options?.version),
+        (shared) =>
+          requestTarget(
+            { type: 'composer', id: composerId, version: options?.version },
+            shared,
+            previous,
+          ),
+        signal,
+      ),
+    );
 
-    return response.json() as Promise<ComposerResponse>;
-  };
+  const fetchComposer = (
+    composerId: string,
+    options?: RequestOptions,
+  ): Promise<ComposerResponse> =>
+    withHooks(
+      { type: 'composer', id: composerId, version: options?.version },
+      () =>
+        withFallback(
+          lookupComposer(composerId, options),
+          (snapshot) => findSnapshotComposer(snapshot, composerId),
+          options?.version,
+        ),
+    );
 
-  const getComposer = async <T extends string, V extends string = 'latest'>(
-    composerId: T,
-    options?: GetComposerOptions<T, V>,
+  const buildComposer = async (
+    response: ComposerResponse,
+    input: Record<string, unknown>,
+    strict = config?.strict,
   ) => {
-    const response = await fetchComposer(composerId, options);
-    const input = (options?.input as Record<string, unknown> | undefined) ?? {};
-
+    // Input is shared by every segment, so it is checked once for the
+    // whole composer
+    const report = createInterpolationReport();
     // Track processed segments for format() and de-duplicated prompts
     const promptsByName = new Map<string, ComposerPrompt>();
+    const modelIdsByName = new Map<string, string>();
     const promptsOrdered: ComposerPrompt[] = [];
     const processedSegments: ProcessedComposerSegment[] = [];
 
@@ -334,7 +738,12 @@ export const createPromptlyClient = (
         processedSegments.push({
           type: 'static',
           content: preserveEmptyParagraphs(
-            interpolateStaticSegment(segment.content, input),
+            renderStaticSegment(
+              segment.content,
+              input,
+              report,
+              config?.filters,
+            ),
           ),
         });
         continue;
@@ -343,7 +752,12 @@ export const createPromptlyClient = (
       if (segment.type === 'html_block') {
         processedSegments.push({
           type: 'static',
-          content: interpolateStaticSegment(segment.html, input),
+          content: renderStaticSegment(
+            segment.html,
+            input,
+            report,
+            config?.filters,
+          ),
         });
         continue;
       }
@@ -357,7 +771,7 @@ export const createPromptlyClient = (
         };
         const model = await modelResolver(segmentConfig.model ?? '');
         const userMessage = segment.userMessage
-          ? interpolate(segment.userMessage, input)
+          ? renderTemplate(segment.userMessage, input, report, config?.filters)
           : '';
         const temperature = segmentConfig.temperature ?? 0.7;
 
@@ -371,11 +785,13 @@ export const createPromptlyClient = (
         };
 
         promptsByName.set(camelName, composerPrompt);
+        modelIdsByName.set(camelName, segmentConfig.model ?? '');
         promptsOrdered.push(composerPrompt);
       }
 
       processedSegments.push({ type: 'prompt', camelName });
     }
+    checkVariables(report, input, strict, `composer "${response.composerId}"`);
 
     const formatComposer = (results: Record<string, FormatInput>): string => {
       const parts: string[] = [];
@@ -402,17 +818,36 @@ export const createPromptlyClient = (
       return parts.join('');
     };
 
-    const compose = async (generate: ComposerGenerateFn): Promise<string> => {
-      const entries = [...promptsByName.entries()];
-      const results = await Promise.all(
-        entries.map(([, prompt]) => generate(prompt)),
+    const compose = (generate: ComposerGenerateFn): Promise<string> =>
+      withSpan(
+        'promptly.compose',
+        {
+          'promptly.composer_id': response.composerId,
+          'promptly.version': response.version,
+        },
+        async () => {
+          const entries = [...promptsByName.entries()];
+          const results = await Promise.all(
+            entries.map(([name, prompt]) =>
+              withSpan(
+                'promptly.generate',
+                {
+                  'promptly.composer_id': response.composerId,
+                  'promptly.prompt_id': prompt.promptId,
+                  'promptly.prompt_name': prompt.promptName,
+                  'promptly.model': modelIdsByName.get(name),
+                },
+                () => generate(prompt),
+              ),
+            ),
+          );
+          const resultMap: Record<string, FormatInput> = {};
+          entries.forEach(([name], i) => {
+            resultMap[name] = results[i] ?? '';
+          });
+          return formatComposer(resultMap);
+        },
       );
-      const resultMap: Record<string, FormatInput> = {};
-      entries.forEach(([name], i) => {
-        resultMap[name] = results[i] ?? '';
-      });
-      return formatComposer(resultMap);
-    };
 
     const result: Record<string, unknown> = {
       composerId: response.composerId,
@@ -432,22 +867,285 @@ export const createPromptlyClient = (
     return result;
   };
 
-  const getComposers = async (entries: readonly ComposerRequest[]) => {
+  const getComposer = <T extends string, V extends string = 'latest'>(
+    composerId: T,
+    options?: GetComposerOptions<T, V>,
+  ) =>
+    withSpan(
+      'promptly.getComposer',
+      targetAttributes({
+        type: 'composer',
+        id: composerId,
+        version: options?.version,
+      }),
+      async (span) => {
+        const response = await fetchComposer(composerId, options);
+        span.setAttributes({ 'promptly.version': response.version });
+        return buildComposer(
+          response,
+          (options?.input as Record<string, unknown> | undefined) ?? {},
+          options?.strict ?? config?.strict,
+        );
+      },
+    );
+
+  const getComposers = async (
+    entries: readonly ComposerRequest[],
+    options?: BatchOptions,
+  ) => {
     const results = await Promise.all(
       entries.map((entry) =>
         getComposer(entry.composerId, {
           input: entry.input,
           version: entry.version,
+          signal: options?.signal,
         }),
       ),
     );
     return results;
   };
 
+  const preload = async (
+    request: PreloadRequest,
+    options?: BatchOptions,
+  ): Promise<PreloadReport> => {
+    const targets: HookTarget[] = [
+      ...(request.prompts ?? []).map(
+        (entry): HookTarget =>
+          typeof entry === 'string'
+            ? { type: 'prompt', id: entry }
+            : { type: 'prompt', id: entry.promptId, version: entry.version },
+      ),
+      ...(request.composers ?? []).map(
+        (entry): HookTarget =>
+          typeof entry === 'string'
+            ? { type: 'composer', id: entry }
+            : {
+                type: 'composer',
+                id: entry.composerId,
+                version: entry.version,
+              },
+      ),
+    ];
+
+    const failures = await Promise.all(
+      targets.map(async (target): Promise<PreloadFailure | undefined> => {
+        const fetchTarget =
+          target.type === 'prompt' ? fetchPrompt : fetchComposer;
+        try {
+          await fetchTarget(target.id, {
+            version: target.version,
+            signal: options?.signal,
+          });
+          return undefined;
+        } catch (error) {
+          return { ...target, error };
+        }
+      }),
+    );
+    return {
+      loaded: targets.filter((_, i) => !failures[i]),
+      failed: failures.filter((f): f is PreloadFailure => f !== undefined),
+    };
+  };
+
+  const requestList = <T>(path: string, signal?: AbortSignal): Promise<T[]> =>
+    withRetry(
+      async () => {
+        const url = new URL(path, baseUrl);
+        url.searchParams.set('include_versions', 'true');
+        const { body } = await requestJson<T[]>(undefined, url, signal);
+        return body;
+      },
+      retryOptions,
+      signal,
+    );
+
+  // Entries from a source that falls back to the API replace the API's
+  // entries with the same ID
+  const listWithSource = async <T>(
+    fromApi: () => Promise<T[]>,
+    fromSource: (() => Promise<T[]>) | undefined,
+    idOf: (entry: T) => string,
+  ): Promise<T[]> => {
+    if (fromSource && !source?.fallbackToApi) {
+      return fromSource();
+    }
+    const [remote, local] = await Promise.all([
+      fromApi(),
+      fromSource?.() ?? [],
+    ]);
+    const localIds = new Set(local.map(idOf));
+    return [...remote.filter((entry) => !localIds.has(idOf(entry))), ...local];
+  };
+
+  const preloadAll = async (options?: BatchOptions): Promise<PreloadReport> => {
+    const [prompts, composers] = await Promise.all([
+      listWithSource(
+        () => requestList<PromptResponse>('/prompts', options?.signal),
+        source && (() => source.listPrompts()),
+        (p) => p.promptId,
+      ),
+      listWithSource(
+        () => requestList<ComposerResponse>('/composers', options?.signal),
+        source && (() => source.listComposers()),
+        (c) => c.composerId,
+      ),
+    ]);
+
+    const loaded: HookTarget[] = [
+      ...prompts.map((p): HookTarget => ({ type: 'prompt', id: p.promptId })),
+      ...composers.map(
+        (c): HookTarget => ({ type: 'composer', id: c.composerId }),
+      ),
+    ];
+    // List responses carry no per-entry validators, so the first refresh of
+    // each entry is unconditional.
+    await Promise.all([
+      ...prompts.map((p) =>
+        writeCache(cacheKey('prompt', p.promptId), 'prompt', { body: p }),
+      ),
+      ...composers.map((c) =>
+        writeCache(cacheKey('composer', c.composerId), 'composer', {
+          body: c,
+        }),
+      ),
+    ]);
+    return { loaded, failed: [] };
+  };
+
+  const invalidate = async ({ type, id, version }: HookTarget) => {
+    try {
+      await cache?.delete(cacheKey(type, id, version));
+    } catch {
+      // A failed delete leaves the entry to expire with its ttl
+    }
+  };
+
+  type WatchSubscriber = {
+    input: Record<string, unknown>;
+    callback: (result: unknown) => void;
+    onError?: (error: unknown) => void;
+  };
+
+  type WatchedTarget = {
+    type: 'prompt' | 'composer';
+    id: string;
+    // Last version seen; undefined until the first successful fetch
+    version?: string;
+    subscribers: Set<WatchSubscriber>;
+  };
+
+  // One entry per watched prompt or composer, however many subscribers it has
+  const watched = new Map<string, WatchedTarget>();
+
+  const fetchLatest = (target: WatchedTarget, bypassCache: boolean) =>
+    target.type === 'prompt'
+      ? fetchPrompt(target.id, { bypassCache })
+      : fetchComposer(target.id, { bypassCache });
+
+  const notify = async (
+    target: WatchedTarget,
+    response: PromptResponse | ComposerResponse,
+  ): Promise<void> => {
+    await Promise.all(
+      [...target.subscribers].map(async (subscriber) => {
+        try {
+          const result =
+            target.type === 'prompt'
+              ? await buildPrompt(response as PromptResponse)
+              : await buildComposer(
+                  response as ComposerResponse,
+                  subscriber.input,
+                );
+          subscriber.callback(result);
+        } catch (error) {
+          subscriber.onError?.(error);
+        }
+      }),
+    );
+  };
+
+  const poll = async (target: WatchedTarget): Promise<boolean> => {
+    try {
+      const response = await fetchLatest(target, true);
+      const previous = target.version;
+      target.version = response.version;
+      if (previous !== undefined && previous !== response.version) {
+        await notify(target, response);
+      }
+      return true;
+    } catch (error) {
+      for (const subscriber of target.subscribers) {
+        subscriber.onError?.(error);
+      }
+      return false;
+    }
+  };
+
+  const watchLoop = createPollLoop(
+    resolveWatchOptions(config?.watch),
+    async () => {
+      const results = await Promise.all([...watched.values()].map(poll));
+      return results.every(Boolean);
+    },
+  );
+
+  const watch = (
+    request: { promptId: string } | { composerId: string; input?: unknown },
+    callback: (result: unknown) => void,
+    options?: WatchSubscribeOptions,
+  ): (() => void) => {
+    const type = 'promptId' in request ? 'prompt' : 'composer';
+    const id = 'promptId' in request ? request.promptId : request.composerId;
+    const key = cacheKey(type, id);
+
+    let target = watched.get(key);
+    if (!target) {
+      const created: WatchedTarget = { type, id, subscribers: new Set() };
+      // Record the current version straight away so a publish before the
+      // first poll is still reported; failures are left to the poll loop.
+      fetchLatest(created, false)
+        .then((response) => {
+          created.version ??= response.version;
+        })
+        .catch(() => {});
+      watched.set(key, created);
+      target = created;
+    }
+
+    const subscriber: WatchSubscriber = {
+      input:
+        'input' in request
+          ? ((request.input as Record<string, unknown> | undefined) ?? {})
+          : {},
+      callback,
+      onError: options?.onError,
+    };
+    target.subscribers.add(subscriber);
+    watchLoop.start();
+
+    const watchedTarget = target;
+    return () => {
+      watchedTarget.subscribers.delete(subscriber);
+      if (watchedTarget.subscribers.size === 0) {
+        watched.delete(key);
+      }
+      if (watched.size === 0) {
+        watchLoop.stop();
+      }
+    };
+  };
+
   return {
     getPrompt,
     getPrompts,
     getComposer,
     getComposers,
+    getUsage: rateLimit.getUsage,
+    preload,
+    preloadAll,
+    invalidate,
+    watch,
   } as PromptlyClient;
 };
@@ -0,0 +1,77 @@
+import { PromptlyError } from './errors.ts';
+
+type InFlight = {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  // Callers that can still use the result; the shared request is only
+  // aborted once every one of them has given up.
+  waiters: number;
+};
+
+export type RequestCoalescer = {
+  run: <T>(
+    key: string,
+    request: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ) => Promise<T>;
+};
+
+export const createRequestCoalescer = (): RequestCoalescer => {
+  const inFlight = new Map<string, InFlight>();
+
+  const start = (
+    key: string,
+    request: (signal: AbortSignal) => Promise<unknown>,
+  ): InFlight => {
+    const controller = new AbortController();
+    const entry: InFlight = {
+      promise: request(controller.signal).finally(() => {
+        if (inFlight.get(key) === entry) {
+          inFlight.delete(key);
+        }
+      }),
+      controller,
+      waiters: 0,
+    };
+    // Every waiter may have aborted, leaving nobody to observe the rejection
+    entry.promise.catch(() => {});
+    inFlight.set(key, entry);
+    return entry;
+  };
+
+  const run = <T>(
+    key: string,
+    request: (signal: AbortSignal) => Promise<T>,
+    signal?: AbortSignal,
+  ): Promise<T> => {
+    if (signal?.aborted) {
+      return Promise.reject(
+        new PromptlyError('Request was aborted.', 'ABORTED', 0),
+      );
+    }
+
+    const entry = inFlight.get(key) ?? start(key, request);
+    entry.waiters++;
+    const promise = entry.promise as Promise<T>;
+    if (!signal) {
+      return promise;
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        entry.waiters--;
+        if (entry.waiters === 0) {
+          inFlight.delete(key);
+          entry.controller.abort();
+        }
+        reject(new PromptlyError('Request was aborted.', 'ABORTED', 0));
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => {
+        signal.removeEventListener('abort', onAbort);
+      });
+    });
+  };
+
+  return { run };
+};
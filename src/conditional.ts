@@ -0,0 +1,30 @@
+import type { ConditionalEntry } from './types.ts';
+
+export const conditionalHeaders = (
+  previous?: ConditionalEntry,
+): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  if (previous?.etag) {
+    headers['If-None-Match'] = previous.etag;
+  }
+  if (previous?.lastModified) {
+    headers['If-Modified-Since'] = previous.lastModified;
+  }
+  return headers;
+};
+
+// A 304 may omit validators it did not change, so the previous ones are kept
+export const toConditionalEntry = <T>(
+  body: T,
+  headers: Headers,
+  previous?: ConditionalEntry,
+): ConditionalEntry<T> => ({
+  body,
+  etag: headers.get('ETag') ?? previous?.etag,
+  lastModified: headers.get('Last-Modified') ?? previous?.lastModified,
+});
+
+export const isNotModified = (
+  response: Response,
+  previous?: ConditionalEntry,
+): previous is ConditionalEntry => response.status === 304 && !!previous;
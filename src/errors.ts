@@ -1,10 +1,20 @@
-import type { ErrorCode, ErrorResponse } from './types.ts';
+import { parseRateLimitReset } from './rate-limit.ts';
+import type {
+  ErrorCode,
+  ErrorResponse,
+  PromptlyErrorDetails,
+} from './types.ts';
 
 export class PromptlyError extends Error {
   readonly code: ErrorCode;
   readonly status: number;
   readonly usage?: unknown;
   readonly upgradeUrl?: string;
+  readonly attempts?: number;
+  readonly retryAfterMs?: number;
+  readonly resetAt?: Date;
+  readonly missingVariables?: string[];
+  readonly unusedVariables?: string[];
 
   constructor(
     message: string,
@@ -12,19 +22,48 @@ export class PromptlyError extends Error {
     status: number,
     usage?: unknown,
     upgradeUrl?: string,
+    details?: PromptlyErrorDetails,
   ) {
-    super(message);
+    super(
+      message,
+      details?.cause === undefined ? undefined : { cause: details.cause },
+    );
     this.name = 'PromptlyError';
     this.code = code;
     this.status = status;
     this.usage = usage;
     this.upgradeUrl = upgradeUrl;
+    this.attempts = details?.attempts;
+    this.retryAfterMs = details?.retryAfterMs;
+    this.resetAt = details?.resetAt;
+    this.missingVariables = details?.missingVariables;
+    this.unusedVariables = details?.unusedVariables;
   }
 }
 
+// Retry-After is either delay-seconds or an HTTP date
+export const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) {
+    return undefined;
+  }
+  return Math.max(0, date - Date.now());
+};
+
 export const createErrorFromResponse = async (
   response: Response,
 ): Promise<PromptlyError> => {
+  const details: PromptlyErrorDetails = {
+    retryAfterMs: parseRetryAfter(response.headers.get('Retry-After')),
+    resetAt: parseRateLimitReset(response.headers),
+  };
   try {
     const body = (await response.json()) as ErrorResponse;
     return new PromptlyError(
@@ -33,12 +72,34 @@ export const createErrorFromResponse = async (
       response.status,
       body.usage,
       body.upgradeUrl,
+      details,
     );
   } catch {
     return new PromptlyError(
       `HTTP ${response.status}: ${response.statusText}`,
       'BAD_REQUEST',
       response.status,
+      undefined,
+      undefined,
+      details,
     );
   }
 };
+
+// fetch rejected, so the request never got a response
+export const createNetworkError = (error: unknown): PromptlyError =>
+  error instanceof PromptlyError
+    ? error
+    : new PromptlyError(
+        `Request failed: ${error instanceof Error ? error.message : String(error)}`,
+        'NETWORK_ERROR',
+        0,
+        undefined,
+        undefined,
+        { cause: error },
+      );
+
+// The ID or version does not exist, as opposed to a failed request
+export const isNotFoundError = (error: unknown): boolean =>
+  error instanceof PromptlyError &&
+  (error.code === 'NOT_FOUND' || error.code === 'VERSION_NOT_FOUND');
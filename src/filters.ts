@@ -0,0 +1,168 @@
+import { isRawHtml } from './html.ts';
+import type { TemplateFilter, TemplateFilterArg } from './types.ts';
+
+// A filter as written after a pipe: `join(", ")` or `upper`
+export type FilterCall = {
+  name: string;
+  args: TemplateFilterArg[];
+};
+
+// `${createdAt | date("yyyy-MM-dd")}` splits into a variable path and the
+// filters applied to its value, left to right
+export type TemplateExpression = {
+  path: string;
+  filters: FilterCall[];
+};
+
+const FILTER_CALL_REGEX = /^(\w+)\s*(?:\(([\s\S]*)\))?$/;
+const NUMBER_REGEX = /^-?\d+(?:\.\d+)?$/;
+const DATE_TOKEN_REGEX = /yyyy|MM|dd|HH|mm|ss/g;
+
+const isPlainObject = (value: object): boolean => {
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === Object.prototype || prototype === null;
+};
+
+// Arrays and plain objects render as JSON rather than [object Object]
+export const formatValue = (value: unknown): string => {
+  if (isRawHtml(value)) {
+    return value.html;
+  }
+  return typeof value === 'object' &&
+    value !== null &&
+    (Array.isArray(value) || isPlainObject(value))
+    ? JSON.stringify(value)
+    : String(value);
+};
+
+// Splits on a separator that isn't inside a quoted string
+const splitUnquoted = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = '';
+  let quote: string | undefined;
+  for (const char of text) {
+    if (quote) {
+      quote = char === quote ? undefined : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  parts.push(current);
+  return parts;
+};
+
+const parseArg = (raw: string): TemplateFilterArg => {
+  const arg = raw.trim();
+  const quote = arg[0];
+  if ((quote === '"' || quote === "'") && arg.endsWith(quote)) {
+    return arg.slice(1, -1);
+  }
+  if (arg === 'true' || arg === 'false') {
+    return arg === 'true';
+  }
+  return NUMBER_REGEX.test(arg) ? Number(arg) : arg;
+};
+
+const parseFilterCall = (raw: string): FilterCall => {
+  const match = raw.trim().match(FILTER_CALL_REGEX);
+  if (!match) {
+    // Reported as an unknown filter under its written form
+    return { name: raw.trim(), args: [] };
+  }
+  const [, name, args] = match;
+  return {
+    name: name as string,
+    args: args?.trim() ? splitUnquoted(args, ',').map(parseArg) : [],
+  };
+};
+
+export const parseTemplateExpression = (raw: string): TemplateExpression => {
+  const [path, ...filters] = splitUnquoted(raw, '|');
+  if (filters.length === 0) {
+    return { path: raw, filters: [] };
+  }
+  return {
+    path: (path as string).trim(),
+    filters: filters.map(parseFilterCall),
+  };
+};
+
+const toDate = (value: unknown): Date | undefined => {
+  if (value instanceof Date) {
+    return value;
+  }
+  if (typeof value === 'string' || typeof value === 'number') {
+    return new Date(value);
+  }
+  return undefined;
+};
+
+const pad = (value: number, length = 2): string =>
+  String(value).padStart(length, '0');
+
+// Dates are formatted in UTC so output doesn't depend on the server's zone
+const formatDate = (date: Date, format: string): string =>
+  format.replace(DATE_TOKEN_REGEX, (token) => {
+    switch (token) {
+      case 'yyyy':
+        return pad(date.getUTCFullYear(), 4);
+      case 'MM':
+        return pad(date.getUTCMonth() + 1);
+      case 'dd':
+        return pad(date.getUTCDate());
+      case 'HH':
+        return pad(date.getUTCHours());
+      case 'mm':
+        return pad(date.getUTCMinutes());
+      default:
+        return pad(date.getUTCSeconds());
+    }
+  });
+
+export const builtinFilters: Record<string, TemplateFilter> = {
+  upper: (value) => formatValue(value).toUpperCase(),
+  lower: (value) => formatValue(value).toLowerCase(),
+  trim: (value) => formatValue(value).trim(),
+  join: (value, separator = ', ') =>
+    Array.isArray(value)
+      ? value.map(formatValue).join(String(separator))
+      : value,
+  json: (value, indent) =>
+    JSON.stringify(
+      value,
+      null,
+      typeof indent === 'number' ? indent : undefined,
+    ),
+  date: (value, format = 'yyyy-MM-dd') => {
+    const date = toDate(value);
+    if (!date || Number.isNaN(date.getTime())) {
+      return value;
+    }
+    return formatDate(date, String(format));
+  },
+};
+
+// Runs each filter in turn, custom filters before built-ins; stops at the
+// first filter that isn't registered
+export const applyFilters = (
+  value: unknown,
+  calls: FilterCall[],
+  filters?: Record<string, TemplateFilter>,
+): { value: unknown } | { unknownFilter: string } => {
+  let current = value;
+  for (const { name, args } of calls) {
+    const filter =
+      (filters && Object.hasOwn(filters, name) ? filters[name] : undefined) ??
+      (Object.hasOwn(builtinFilters, name) ? builtinFilters[name] : undefined);
+    if (!filter) {
+      return { unknownFilter: name };
+    }
+    current = filter(current, ...args);
+  }
+  return { value: current };
+};
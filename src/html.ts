@@ -0,0 +1,26 @@
+import type { RawHtml } from './types.ts';
+
+const HTML_ESCAPES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => HTML_ESCAPES[char] as string);
+
+// Only values made by rawHtml() are trusted, so input parsed from JSON can't
+// pass itself off as raw HTML
+const trusted = new WeakSet<object>();
+
+// Marks trusted HTML that composer segments should insert without escaping
+export const rawHtml = (html: string): RawHtml => {
+  const value: RawHtml = Object.freeze({ html, toString: () => html });
+  trusted.add(value);
+  return value;
+};
+
+export const isRawHtml = (value: unknown): value is RawHtml =>
+  typeof value === 'object' && value !== null && trusted.has(value);
@@ -1,12 +1,20 @@
 export {
   createPromptlyClient,
   getSdkModelId,
-  interpolate,
-  interpolateStaticSegment,
   toCamelCase,
 } from './client.ts';
 export { PromptlyError } from './errors.ts';
+export { rawHtml } from './html.ts';
+export { interpolate, interpolateStaticSegment } from './interpolate.ts';
 export type {
+  BatchOptions,
+  CacheOptions,
+  CacheRecord,
+  CacheStatus,
+  CacheStore,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
   ComposerConfig,
   ComposerFormatFn,
   ComposerGenerateFn,
@@ -24,15 +32,42 @@ export type {
   ComposerStaticSegment,
   ComposerVariableMap,
   ComposerVersion,
+  ConditionalCache,
+  ConditionalEntry,
   ErrorCode,
+  ErrorHookContext,
   ErrorResponse,
+  FetchFn,
   FormatInput,
   GetComposerOptions,
   GetOptions,
+  HookTarget,
+  InterpolateOptions,
+  KeyValueAdapter,
+  KeyValueCacheStoreOptions,
+  MockComposerFixture,
+  MockPromptFixture,
+  MockPromptlyClient,
+  MockPromptlyClientOptions,
+  ModelResolvedHookContext,
+  OverrideSourceOptions,
+  PreloadFailure,
+  PreloadReport,
+  PreloadRequest,
   PromptConfig,
   PromptId,
+  PromptlyCassette,
   PromptlyClient,
   PromptlyClientConfig,
+  PromptlyErrorDetails,
+  PromptlyHooks,
+  PromptlySnapshot,
+  PromptlySource,
+  PromptlyTestServer,
+  PromptlyTestServerOptions,
+  PromptlyWebhookEvent,
+  PromptlyWebhookEventType,
+  PromptlyWebhookHandlerOptions,
   PromptMessage,
   PromptRequest,
   PromptResponse,
@@ -40,7 +75,24 @@ export type {
   PromptVariableMap,
   PromptVersion,
   PublishedVersion,
+  RateLimitEvent,
+  RateLimitUsage,
+  RawHtml,
+  RequestHookContext,
+  ResponseHookContext,
+  RetryOptions,
+  RevalidateEvent,
   SchemaField,
   SchemaFieldParams,
+  StrictOptions,
+  TemplateFilter,
+  TemplateFilterArg,
   ValidationRule,
+  WatchOptions,
+  WatchSubscribeOptions,
 } from './types.ts';
+export {
+  createPromptlyWebhookHandler,
+  signPromptlyWebhook,
+  WEBHOOK_SIGNATURE_HEADER,
+} from './webhook.ts';
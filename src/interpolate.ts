@@ -0,0 +1,343 @@
+import { parseTemplateBlocks, type TemplateNode } from './blocks.ts';
+import { PromptlyError } from './errors.ts';
+import {
+  applyFilters,
+  formatValue,
+  parseTemplateExpression,
+} from './filters.ts';
+import { escapeHtml, isRawHtml } from './html.ts';
+import type {
+  InterpolateOptions,
+  StrictOptions,
+  TemplateFilter,
+} from './types.ts';
+
+// ${name} in prompt messages, optionally piped through filters
+const TEMPLATE_VARIABLE_REGEX = /\$\{([^}]+)\}/g;
+
+// Static composer segments reference input as spans or {{name}}
+const VARIABLE_REF_REGEX =
+  /<span[^>]*\sdata-variable-ref(?:="[^"]*")?[^>]*\sdata-field-path="([^"]+)"[^>]*><\/span>/g;
+
+const VARIABLE_REF_ALT_REGEX =
+  /<span[^>]*\sdata-field-path="([^"]+)"[^>]*\sdata-variable-ref(?:="[^"]*")?[^>]*><\/span>/g;
+
+const MUSTACHE_REGEX = /\{\{(\w[\w.[\]]*(?:\s*\|[^}]*)?)\}\}/g;
+
+const STATIC_SEGMENT_REGEXES = [
+  VARIABLE_REF_REGEX,
+  VARIABLE_REF_ALT_REGEX,
+  MUSTACHE_REGEX,
+];
+
+// `order.items[0].sku`: names separated by dots, with array indexes
+const VARIABLE_PATH_REGEX = /^\w+(?:\.\w+|\[\d+\])*$/;
+const PATH_SEGMENT_REGEX = /(\w+)|\[(\d+)\]/g;
+
+// Which variables a template referenced, which of those had no value, and
+// which filters weren't registered
+export type InterpolationReport = {
+  used: Set<string>;
+  missing: Set<string>;
+  unknownFilters: Set<string>;
+};
+
+export const createInterpolationReport = (): InterpolationReport => ({
+  used: new Set(),
+  missing: new Set(),
+  unknownFilters: new Set(),
+});
+
+// Property names and array indexes of a variable path, or undefined when
+// the name isn't a path
+export const parseVariablePath = (
+  path: string,
+): (string | number)[] | undefined => {
+  if (!VARIABLE_PATH_REGEX.test(path)) {
+    return undefined;
+  }
+  return Array.from(path.matchAll(PATH_SEGMENT_REGEX), ([, key, index]) =>
+    index === undefined ? (key as string) : Number(index),
+  );
+};
+
+const resolvePath = (
+  variables: Record<string, unknown>,
+  path: string,
+): { value: unknown } | undefined => {
+  // A flat key such as 'user.name' wins over walking the path
+  if (Object.hasOwn(variables, path)) {
+    return { value: variables[path] };
+  }
+  const segments = parseVariablePath(path);
+  if (!segments || segments.length < 2) {
+    return undefined;
+  }
+  let current: unknown = variables;
+  for (const segment of segments) {
+    if (
+      typeof current !== 'object' ||
+      current === null ||
+      !Object.hasOwn(current, segment)
+    ) {
+      return undefined;
+    }
+    current = (current as Record<string | number, unknown>)[segment];
+  }
+  return current === undefined ? undefined : { value: current };
+};
+
+const markUsed = (path: string, report?: InterpolationReport): void => {
+  report?.used.add(path);
+  const root = parseVariablePath(path)?.[0];
+  if (typeof root === 'string') {
+    report?.used.add(root);
+  }
+};
+
+// Optional lookups, such as `{{#if}}` conditions, never count as missing
+const lookup = (
+  variables: Record<string, unknown>,
+  path: string,
+  report?: InterpolationReport,
+  optional = false,
+): { value: unknown } | undefined => {
+  markUsed(path, report);
+  const found = resolvePath(variables, path);
+  if (!found && !optional) {
+    report?.missing.add(path);
+  }
+  return found;
+};
+
+// Looks up the variable and runs its filters; an unknown filter counts as
+// no value
+const resolveExpression = (
+  variables: Record<string, unknown>,
+  expression: string,
+  report?: InterpolationReport,
+  filters?: Record<string, TemplateFilter>,
+): { value: unknown } | undefined => {
+  const { path, filters: calls } = parseTemplateExpression(expression);
+  const found = lookup(variables, path, report);
+  if (!found || calls.length === 0) {
+    return found;
+  }
+  const result = applyFilters(found.value, calls, filters);
+  if ('unknownFilter' in result) {
+    report?.unknownFilters.add(result.unknownFilter);
+    return undefined;
+  }
+  return result;
+};
+
+// Empty arrays are falsy, as in other template languages
+const isTruthy = (value: unknown): boolean =>
+  Array.isArray(value) ? value.length > 0 : Boolean(value);
+
+// Marks what a branch that isn't rendered references as used, so strict
+// mode doesn't call those variables unused; `regexes` find the placeholders
+const markBranchUsed = (
+  nodes: TemplateNode[],
+  regexes: RegExp[],
+  report?: InterpolationReport,
+): void => {
+  if (!report) {
+    return;
+  }
+  for (const node of nodes) {
+    if (typeof node === 'string') {
+      for (const regex of regexes) {
+        for (const [, expression] of node.matchAll(regex)) {
+          markUsed(parseTemplateExpression(expression as string).path, report);
+        }
+      }
+      continue;
+    }
+    markUsed(node.path, report);
+    markBranchUsed(node.body, regexes, report);
+    markBranchUsed(node.alternate, regexes, report);
+  }
+};
+
+// Renders `{{#if}}` and `{{#each}}` sections, passing the text between them
+// to `renderText`, whose placeholders `regexes` match; inside `{{#each}}`
+// the current item is `this`
+const renderBlocks = (
+  nodes: TemplateNode[],
+  variables: Record<string, unknown>,
+  renderText: (text: string, variables: Record<string, unknown>) => string,
+  regexes: RegExp[],
+  report?: InterpolationReport,
+): string =>
+  nodes
+    .map((node) => {
+      if (typeof node === 'string') {
+        return renderText(node, variables);
+      }
+      const found = lookup(variables, node.path, report, node.block === 'if');
+      if (node.block === 'if') {
+        const truthy = isTruthy(found?.value);
+        markBranchUsed(truthy ? node.alternate : node.body, regexes, report);
+        return renderBlocks(
+          truthy ? node.body : node.alternate,
+          variables,
+          renderText,
+          regexes,
+          report,
+        );
+      }
+      const items = found?.value;
+      if (!Array.isArray(items) || items.length === 0) {
+        markBranchUsed(node.body, regexes, report);
+        return renderBlocks(
+          node.alternate,
+          variables,
+          renderText,
+          regexes,
+          report,
+        );
+      }
+      markBranchUsed(node.alternate, regexes, report);
+      return items
+        .map((item) =>
+          renderBlocks(
+            node.body,
+            { ...variables, this: item },
+            renderText,
+            regexes,
+            report,
+          ),
+        )
+        .join('');
+    })
+    .join('');
+
+// Missing variables are left in place
+export const renderTemplate = (
+  template: string,
+  variables: Record<string, unknown>,
+  report?: InterpolationReport,
+  filters?: Record<string, TemplateFilter>,
+): string =>
+  renderBlocks(
+    parseTemplateBlocks(template),
+    variables,
+    (text, scope) =>
+      text.replace(TEMPLATE_VARIABLE_REGEX, (match, expression: string) => {
+        const found = resolveExpression(scope, expression, report, filters);
+        return found ? formatValue(found.value) : match;
+      }),
+    [TEMPLATE_VARIABLE_REGEX],
+    report,
+  );
+
+// Input is HTML-escaped unless it was marked trusted with rawHtml()
+const formatHtmlValue = (value: unknown): string =>
+  isRawHtml(value) ? value.html : escapeHtml(formatValue(value));
+
+// Missing variables render as nothing
+export const renderStaticSegment = (
+  content: string,
+  input: Record<string, unknown>,
+  report?: InterpolationReport,
+  filters?: Record<string, TemplateFilter>,
+): string =>
+  renderBlocks(
+    parseTemplateBlocks(content),
+    input,
+    (text, scope) => {
+      const replace = (_: string, expression: string) => {
+        const found = resolveExpression(scope, expression, report, filters);
+        return found ? formatHtmlValue(found.value) : '';
+      };
+      return STATIC_SEGMENT_REGEXES.reduce(
+        (result, regex) => result.replace(regex, replace),
+        text,
+      );
+    },
+    STATIC_SEGMENT_REGEXES,
+    report,
+  );
+
+const resolveStrictOptions = (
+  strict: boolean | StrictOptions | undefined,
+): Required<StrictOptions> | undefined => {
+  if (!strict) {
+    return undefined;
+  }
+  return { unused: (strict === true ? undefined : strict.unused) ?? 'warn' };
+};
+
+// Throws when strict and a filter isn't registered or a referenced variable
+// had no value; unused variables warn, throw or pass depending on
+// `strict.unused`
+export const checkVariables = (
+  report: InterpolationReport,
+  variables: Record<string, unknown>,
+  strict: boolean | StrictOptions | undefined,
+  label: string,
+): void => {
+  const options = resolveStrictOptions(strict);
+  if (!options) {
+    return;
+  }
+  if (report.unknownFilters.size > 0) {
+    throw new PromptlyError(
+      `Unknown filters for ${label}: ${[...report.unknownFilters].join(', ')}`,
+      'UNKNOWN_FILTER',
+      0,
+    );
+  }
+  if (report.missing.size > 0) {
+    const missingVariables = [...report.missing];
+    throw new PromptlyError(
+      `Missing variables for ${label}: ${missingVariables.join(', ')}`,
+      'MISSING_VARIABLES',
+      0,
+      undefined,
+      undefined,
+      { missingVariables },
+    );
+  }
+  const unusedVariables = Object.keys(variables).filter(
+    (name) => !report.used.has(name),
+  );
+  if (unusedVariables.length === 0 || options.unused === 'ignore') {
+    return;
+  }
+  const message = `Unused variables for ${label}: ${unusedVariables.join(', ')}`;
+  if (options.unused === 'throw') {
+    throw new PromptlyError(
+      message,
+      'UNUSED_VARIABLES',
+      0,
+      undefined,
+      undefined,
+      { unusedVariables },
+    );
+  }
+  console.warn(`[promptly] ${message}`);
+};
+
+export const interpolate = (
+  template: string,
+  variables: Record<string, unknown>,
+  options?: InterpolateOptions,
+): string => {
+  const report = createInterpolationReport();
+  const result = renderTemplate(template, variables, report, options?.filters);
+  checkVariables(report, variables, options?.strict, 'template');
+  return result;
+};
+
+export const interpolateStaticSegment = (
+  content: string,
+  input: Record<string, unknown>,
+  options?: InterpolateOptions,
+): string => {
+  const report = createInterpolationReport();
+  const result = renderStaticSegment(content, input, report, options?.filters);
+  checkVariables(report, input, options?.strict, 'static segment');
+  return result;
+};
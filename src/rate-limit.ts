@@ -0,0 +1,75 @@
+import type { RateLimitEvent, RateLimitUsage } from './types.ts';
+
+const DEFAULT_RATE_LIMIT_THRESHOLDS = [0.2, 0.1, 0.05];
+
+const readNumberHeader = (
+  headers: Headers,
+  name: string,
+): number | undefined => {
+  const value = headers.get(name);
+  if (value === null || value.trim() === '') {
+    return undefined;
+  }
+  const parsed = Number(value);
+  return Number.isNaN(parsed) ? undefined : parsed;
+};
+
+// X-RateLimit-Reset is a Unix timestamp in seconds
+export const parseRateLimitReset = (headers: Headers): Date | undefined => {
+  const reset = readNumberHeader(headers, 'X-RateLimit-Reset');
+  return reset === undefined ? undefined : new Date(reset * 1000);
+};
+
+export const parseRateLimitUsage = (
+  headers: Headers,
+): RateLimitUsage | undefined => {
+  const limit = readNumberHeader(headers, 'X-RateLimit-Limit');
+  const remaining = readNumberHeader(headers, 'X-RateLimit-Remaining');
+  const resetAt = parseRateLimitReset(headers);
+  if (limit === undefined || remaining === undefined || !resetAt) {
+    return undefined;
+  }
+  return { limit, remaining, resetAt };
+};
+
+export type RateLimitTracker = {
+  track: (headers: Headers) => void;
+  getUsage: () => RateLimitUsage | undefined;
+};
+
+export const createRateLimitTracker = (
+  thresholds: number[] = DEFAULT_RATE_LIMIT_THRESHOLDS,
+  onRateLimit?: (event: RateLimitEvent) => void,
+): RateLimitTracker => {
+  let usage: RateLimitUsage | undefined;
+  // Lowest threshold already reported, so each one fires once per quota period
+  let notified: number | undefined;
+
+  const track = (headers: Headers): void => {
+    const next = parseRateLimitUsage(headers);
+    if (!next) {
+      return;
+    }
+    usage = next;
+
+    const fraction = next.limit > 0 ? next.remaining / next.limit : 0;
+    const crossed = thresholds.filter((t) => fraction <= t);
+    if (crossed.length === 0) {
+      // Quota has been replenished, so thresholds can fire again
+      notified = undefined;
+      return;
+    }
+
+    const threshold = Math.min(...crossed);
+    if (notified !== undefined && threshold >= notified) {
+      return;
+    }
+    notified = threshold;
+    onRateLimit?.({ ...next, threshold });
+  };
+
+  return {
+    track,
+    getUsage: () => usage,
+  };
+};
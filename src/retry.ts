@@ -0,0 +1,124 @@
+import { PromptlyError } from './errors.ts';
+import type { ErrorCode, RetryOptions } from './types.ts';
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_BASE_DELAY_MS = 200;
+const DEFAULT_MAX_DELAY_MS = 5000;
+const DEFAULT_RETRY_ON = [429, 500, 502, 503, 504];
+
+// Retrying these can never succeed, whatever status the API paired them with
+const NON_RETRYABLE_CODES = new Set<ErrorCode>([
+  'NOT_FOUND',
+  'VERSION_NOT_FOUND',
+  'INVALID_KEY',
+  'UNAUTHORIZED',
+]);
+
+export type ResolvedRetryOptions = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  jitter: boolean;
+  retryOn: number[];
+};
+
+export const resolveRetryOptions = (
+  options?: boolean | RetryOptions,
+): ResolvedRetryOptions => {
+  const overrides = options === true ? {} : options || { maxAttempts: 1 };
+  return {
+    maxAttempts: Math.max(1, overrides.maxAttempts ?? DEFAULT_MAX_ATTEMPTS),
+    baseDelayMs: overrides.baseDelayMs ?? DEFAULT_BASE_DELAY_MS,
+    maxDelayMs: overrides.maxDelayMs ?? DEFAULT_MAX_DELAY_MS,
+    jitter: overrides.jitter ?? true,
+    retryOn: overrides.retryOn ?? DEFAULT_RETRY_ON,
+  };
+};
+
+const isRetryable = (
+  error: unknown,
+  options: ResolvedRetryOptions,
+): boolean => {
+  // Errors from hooks or from parsing the response would only repeat
+  if (!(error instanceof PromptlyError)) {
+    return false;
+  }
+  if (error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR') {
+    return true;
+  }
+  if (error.code === 'ABORTED' || NON_RETRYABLE_CODES.has(error.code)) {
+    return false;
+  }
+  return options.retryOn.includes(error.status);
+};
+
+// Returns undefined when the server asks us to wait longer than maxDelayMs
+const retryDelay = (
+  error: unknown,
+  attempt: number,
+  options: ResolvedRetryOptions,
+): number | undefined => {
+  if (error instanceof PromptlyError && error.retryAfterMs !== undefined) {
+    return error.retryAfterMs <= options.maxDelayMs
+      ? error.retryAfterMs
+      : undefined;
+  }
+  const backoff = Math.min(
+    options.maxDelayMs,
+    options.baseDelayMs * 2 ** (attempt - 1),
+  );
+  return options.jitter ? Math.random() * backoff : backoff;
+};
+
+const withAttempts = (error: unknown, attempts: number): unknown => {
+  if (!(error instanceof PromptlyError)) {
+    return error;
+  }
+  return new PromptlyError(
+    error.message,
+    error.code,
+    error.status,
+    error.usage,
+    error.upgradeUrl,
+    {
+      attempts,
+      retryAfterMs: error.retryAfterMs,
+      resetAt: error.resetAt,
+      cause: error.cause,
+    },
+  );
+};
+
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new PromptlyError('Request was aborted.', 'ABORTED', 0));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+export const withRetry = async <T>(
+  request: () => Promise<T>,
+  options: ResolvedRetryOptions,
+  signal?: AbortSignal,
+): Promise<T> => {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await request();
+    } catch (error) {
+      const delay =
+        attempt < options.maxAttempts && isRetryable(error, options)
+          ? retryDelay(error, attempt, options)
+          : undefined;
+      if (delay === undefined) {
+        throw withAttempts(error, attempt);
+      }
+      await sleep(delay, signal);
+    }
+  }
+};
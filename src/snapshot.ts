@@ -0,0 +1,62 @@
+import { PromptlyError } from './errors.ts';
+import type {
+  ComposerResponse,
+  PromptlySnapshot,
+  PromptResponse,
+} from './types.ts';
+
+// Only outages, timeouts and throttling fall back to the snapshot. Client
+// errors such as NOT_FOUND or INVALID_KEY, caller aborts and errors thrown by
+// hooks must still surface.
+export const isFallbackError = (error: unknown): boolean => {
+  if (!(error instanceof PromptlyError)) {
+    return false;
+  }
+  if (error.code === 'TIMEOUT' || error.code === 'NETWORK_ERROR') {
+    return true;
+  }
+  return error.status === 429 || error.status >= 500;
+};
+
+export const findSnapshotPrompt = (
+  snapshot: Pick<PromptlySnapshot, 'prompts'>,
+  promptId: string,
+  version?: string,
+): PromptResponse | undefined => {
+  const prompt = snapshot.prompts.find((p) => p.promptId === promptId);
+  if (!prompt) {
+    return undefined;
+  }
+  if (!version || version === 'latest' || version === prompt.version) {
+    return prompt;
+  }
+
+  // The list endpoint only carries the user message of older versions, so
+  // the rest of the response comes from the latest version.
+  const published = prompt.publishedVersions?.find(
+    (pv) => pv.version === version,
+  );
+  if (!published) {
+    return undefined;
+  }
+  return {
+    ...prompt,
+    version: published.version,
+    userMessage: published.userMessage,
+  };
+};
+
+export const findSnapshotComposer = (
+  snapshot: Pick<PromptlySnapshot, 'composers'>,
+  composerId: string,
+  version?: string,
+): ComposerResponse | undefined => {
+  const composer = snapshot.composers.find((c) => c.composerId === composerId);
+  if (!composer) {
+    return undefined;
+  }
+  if (!version || version === 'latest' || version === composer.version) {
+    return composer;
+  }
+  return undefined;
+};
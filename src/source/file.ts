@@ -0,0 +1,306 @@
+import { readdir, readFile } from 'node:fs/promises';
+import { extname, join } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { PromptlyError } from '../errors.ts';
+import { findSnapshotComposer, findSnapshotPrompt } from '../snapshot.ts';
+import type {
+  ComposerResponse,
+  ComposerSegment,
+  PromptlySource,
+  PromptResponse,
+  PublishedVersion,
+} from '../types.ts';
+
+type Kind = 'prompt' | 'composer';
+
+type SourceFile = {
+  id: string;
+  path: string;
+};
+
+type ParsedFile = {
+  data: Record<string, unknown>;
+  // Markdown body below the frontmatter
+  body?: string;
+};
+
+const EXTENSIONS = new Set(['.yaml', '.yml', '.json', '.md']);
+const DIRECTORIES: Record<Kind, string> = {
+  prompt: 'prompts',
+  composer: 'composers',
+};
+const FRONTMATTER_REGEX = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+const DEFAULT_VERSION = '1.0.0';
+// What most providers use when no temperature is sent
+const DEFAULT_TEMPERATURE = 1;
+
+const invalidFile = (path: string, reason: string): PromptlyError =>
+  new PromptlyError(
+    `Invalid Promptly file ${path}: ${reason}`,
+    'BAD_REQUEST',
+    0,
+  );
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const parseFile = (path: string, raw: string): ParsedFile => {
+  let data: unknown;
+  let body: string | undefined;
+  try {
+    if (extname(path) === '.json') {
+      data = JSON.parse(raw);
+    } else if (extname(path) === '.md') {
+      const match = FRONTMATTER_REGEX.exec(raw);
+      data = match ? (parseYaml(match[1] ?? '') ?? {}) : {};
+      body = raw.slice(match?.[0].length ?? 0).trim();
+    } else {
+      data = parseYaml(raw);
+    }
+  } catch (error) {
+    throw invalidFile(
+      path,
+      error instanceof Error ? error.message : String(error),
+    );
+  }
+  if (!isRecord(data)) {
+    throw invalidFile(path, 'expected an object');
+  }
+  return { data, body };
+};
+
+const optionalString = (
+  path: string,
+  data: Record<string, unknown>,
+  field: string,
+): string | undefined => {
+  const value = data[field];
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  // YAML reads `version: 2` as a number
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value !== 'string') {
+    throw invalidFile(path, `${field} must be a string`);
+  }
+  return value;
+};
+
+const optionalArray = <T>(
+  path: string,
+  data: Record<string, unknown>,
+  field: string,
+): T[] | undefined => {
+  const value = data[field];
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value)) {
+    throw invalidFile(path, `${field} must be an array`);
+  }
+  return value as T[];
+};
+
+const toPromptResponse = (
+  { id, path }: SourceFile,
+  { data, body }: ParsedFile,
+): PromptResponse => {
+  const config = isRecord(data.config) ? data.config : {};
+  const userMessage = body || optionalString(path, data, 'userMessage');
+  const model = optionalString(path, config, 'model');
+  if (userMessage === undefined) {
+    throw invalidFile(path, 'userMessage is required');
+  }
+  if (!model) {
+    throw invalidFile(path, 'config.model is required');
+  }
+  if (
+    config.temperature !== undefined &&
+    typeof config.temperature !== 'number'
+  ) {
+    throw invalidFile(path, 'config.temperature must be a number');
+  }
+  const publishedVersions = optionalArray<PublishedVersion>(
+    path,
+    data,
+    'publishedVersions',
+  );
+
+  return {
+    promptId: id,
+    promptName: optionalString(path, data, 'promptName') ?? id,
+    version: optionalString(path, data, 'version') ?? DEFAULT_VERSION,
+    systemMessage: optionalString(path, data, 'systemMessage') ?? '',
+    userMessage,
+    config: {
+      model,
+      temperature: config.temperature ?? DEFAULT_TEMPERATURE,
+      schema: optionalArray(path, config, 'schema') ?? [],
+      inputData: config.inputData ?? null,
+      inputDataRootName:
+        optionalString(path, config, 'inputDataRootName') ?? null,
+    },
+    ...(publishedVersions && { publishedVersions }),
+  };
+};
+
+const toComposerResponse = (
+  { id, path }: SourceFile,
+  { data, body }: ParsedFile,
+): ComposerResponse => {
+  const config = isRecord(data.config) ? data.config : {};
+  const segments = optionalArray<ComposerSegment>(path, data, 'segments') ?? [];
+  const publishedVersions = optionalArray<{ version: string }>(
+    path,
+    data,
+    'publishedVersions',
+  );
+
+  return {
+    composerId: id,
+    composerName: optionalString(path, data, 'composerName') ?? id,
+    version: optionalString(path, data, 'version') ?? DEFAULT_VERSION,
+    config: {
+      schema: optionalArray(path, config, 'schema') ?? [],
+      inputData: config.inputData ?? null,
+      inputDataRootName:
+        optionalString(path, config, 'inputDataRootName') ?? null,
+    },
+    // A Markdown body is the composer's closing static content
+    segments: body
+      ? [...segments, { type: 'static', content: body }]
+      : segments,
+    ...(publishedVersions && { publishedVersions }),
+  };
+};
+
+// Reads prompts from `<directory>/prompts` and composers from
+// `<directory>/composers`, one YAML, JSON or Markdown file per ID. Files are
+// read on every lookup so edits show up without a restart.
+export const fileSource = (directory: string): PromptlySource => {
+  const listFiles = async (kind: Kind): Promise<SourceFile[]> => {
+    const dir = join(directory, DIRECTORIES[kind]);
+    let names: string[];
+    try {
+      names = await readdir(dir);
+    } catch {
+      return [];
+    }
+    return names
+      .filter((name) => EXTENSIONS.has(extname(name)))
+      .sort()
+      .map((name) => ({
+        id: name.slice(0, -extname(name).length),
+        path: join(dir, name),
+      }));
+  };
+
+  const readSourceFile = async (file: SourceFile): Promise<ParsedFile> =>
+    parseFile(file.path, await readFile(file.path, 'utf-8'));
+
+  const loadPrompt = async (file: SourceFile) =>
+    toPromptResponse(file, await readSourceFile(file));
+
+  // Prompt segments that only name a promptId are filled in from that
+  // prompt's file, so composers don't repeat their prompts' messages.
+  const resolveSegments = async (
+    composer: SourceFile,
+    segments: ComposerSegment[],
+    prompts: SourceFile[],
+  ): Promise<ComposerSegment[]> =>
+    Promise.all(
+      segments.map(async (segment) => {
+        if (segment.type !== 'prompt' || segment.userMessage !== undefined) {
+          return segment;
+        }
+        const file = prompts.find((p) => p.id === segment.promptId);
+        if (!file) {
+          // An invalid file rather than a missing composer
+          throw invalidFile(
+            composer.path,
+            `prompt segment references unknown prompt "${segment.promptId}"`,
+          );
+        }
+        const prompt = await loadPrompt(file);
+        return {
+          type: 'prompt',
+          promptId: prompt.promptId,
+          promptName: segment.promptName ?? prompt.promptName,
+          version: prompt.version,
+          systemMessage: prompt.systemMessage,
+          userMessage: prompt.userMessage,
+          config: prompt.config,
+        };
+      }),
+    );
+
+  const loadComposer = async (file: SourceFile, prompts: SourceFile[]) => {
+    const composer = toComposerResponse(file, await readSourceFile(file));
+    return {
+      ...composer,
+      segments: await resolveSegments(file, composer.segments, prompts),
+    };
+  };
+
+  const findFile = async (kind: Kind, id: string): Promise<SourceFile> => {
+    const file = (await listFiles(kind)).find((f) => f.id === id);
+    if (!file) {
+      throw new PromptlyError(
+        `${kind === 'prompt' ? 'Prompt' : 'Composer'} "${id}" not found in ${join(directory, DIRECTORIES[kind])}`,
+        'NOT_FOUND',
+        404,
+      );
+    }
+    return file;
+  };
+
+  const versionNotFound = (id: string, version: string) =>
+    new PromptlyError(
+      `Version ${version} of "${id}" not found in ${directory}`,
+      'VERSION_NOT_FOUND',
+      404,
+    );
+
+  return {
+    getPrompt: async (promptId, version) => {
+      const prompt = await loadPrompt(await findFile('prompt', promptId));
+      const found = findSnapshotPrompt(
+        { prompts: [prompt] },
+        promptId,
+        version,
+      );
+      if (!found) {
+        throw versionNotFound(promptId, version ?? 'latest');
+      }
+      return found;
+    },
+    getComposer: async (composerId, version) => {
+      const [file, prompts] = await Promise.all([
+        findFile('composer', composerId),
+        listFiles('prompt'),
+      ]);
+      const composer = await loadComposer(file, prompts);
+      const found = findSnapshotComposer(
+        { composers: [composer] },
+        composerId,
+        version,
+      );
+      if (!found) {
+        throw versionNotFound(composerId, version ?? 'latest');
+      }
+      return found;
+    },
+    listPrompts: async () =>
+      Promise.all((await listFiles('prompt')).map(loadPrompt)),
+    listComposers: async () => {
+      const [files, prompts] = await Promise.all([
+        listFiles('composer'),
+        listFiles('prompt'),
+      ]);
+      return Promise.all(files.map((file) => loadComposer(file, prompts)));
+    },
+  };
+};
@@ -0,0 +1,3 @@
+export type { OverrideSourceOptions, PromptlySource } from '../types.ts';
+export { fileSource } from './file.ts';
+export { overrideSource } from './override.ts';
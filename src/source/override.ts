@@ -0,0 +1,64 @@
+import { isNotFoundError, PromptlyError } from '../errors.ts';
+import type { OverrideSourceOptions, PromptlySource } from '../types.ts';
+import { fileSource } from './file.ts';
+
+const resolveLogger = (
+  debug: OverrideSourceOptions['debug'],
+): ((message: string) => void) | undefined => {
+  if (typeof debug === 'function') {
+    return debug;
+  }
+  return debug ? (message) => console.debug(message) : undefined;
+};
+
+// Serves the prompts and composers found in `overrides` and leaves every
+// other lookup to the API, so a single prompt can be iterated on locally.
+export const overrideSource = (
+  overrides: string | PromptlySource,
+  options?: OverrideSourceOptions,
+): PromptlySource => {
+  if (process.env.NODE_ENV === 'production' && !options?.allowInProduction) {
+    throw new PromptlyError(
+      'Local prompt overrides are disabled when NODE_ENV=production. Pass { allowInProduction: true } to overrideSource() to use them anyway.',
+      'BAD_REQUEST',
+      0,
+    );
+  }
+  const source =
+    typeof overrides === 'string' ? fileSource(overrides) : overrides;
+  const label =
+    typeof overrides === 'string'
+      ? `local overrides in ${overrides}`
+      : 'local overrides';
+  const log = resolveLogger(options?.debug);
+
+  const withLog = async <T>(
+    target: string,
+    lookup: () => Promise<T>,
+  ): Promise<T> => {
+    try {
+      const result = await lookup();
+      log?.(`[promptly] ${target} served from ${label}`);
+      return result;
+    } catch (error) {
+      if (isNotFoundError(error)) {
+        log?.(`[promptly] ${target} not overridden, using the Promptly API`);
+      }
+      throw error;
+    }
+  };
+
+  return {
+    getPrompt: (promptId, version) =>
+      withLog(`prompt ${promptId}@${version ?? 'latest'}`, () =>
+        source.getPrompt(promptId, version),
+      ),
+    getComposer: (composerId, version) =>
+      withLog(`composer ${composerId}@${version ?? 'latest'}`, () =>
+        source.getComposer(composerId, version),
+      ),
+    listPrompts: source.listPrompts,
+    listComposers: source.listComposers,
+    fallbackToApi: true,
+  };
+};
@@ -0,0 +1,10 @@
+export type {
+  MockComposerFixture,
+  MockPromptFixture,
+  MockPromptlyClient,
+  MockPromptlyClientOptions,
+  PromptlyTestServer,
+  PromptlyTestServerOptions,
+} from '../types.ts';
+export { createMockPromptlyClient } from './mock-client.ts';
+export { createPromptlyTestServer } from './server.ts';
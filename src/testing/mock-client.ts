@@ -0,0 +1,164 @@
+import { simulateReadableStream } from 'ai';
+import { MockLanguageModelV3 } from 'ai/test';
+import { createPromptlyClient } from '../client.ts';
+import { PromptlyError } from '../errors.ts';
+import { findSnapshotComposer, findSnapshotPrompt } from '../snapshot.ts';
+import type {
+  ComposerResponse,
+  HookTarget,
+  MockComposerFixture,
+  MockPromptFixture,
+  MockPromptlyClient,
+  MockPromptlyClientOptions,
+  PromptlySource,
+  PromptResponse,
+} from '../types.ts';
+
+const MOCK_MODEL_ID = 'mock-model';
+const DEFAULT_RESPONSE = 'Mock response';
+const DEFAULT_VERSION = '1.0.0';
+
+const toPromptResponse = (
+  promptId: string,
+  fixture: MockPromptFixture,
+): PromptResponse => ({
+  promptName: promptId,
+  version: DEFAULT_VERSION,
+  systemMessage: '',
+  userMessage: '',
+  ...fixture,
+  promptId,
+  config: {
+    model: MOCK_MODEL_ID,
+    temperature: 0.7,
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+    ...fixture.config,
+  },
+});
+
+const toComposerResponse = (
+  composerId: string,
+  fixture: MockComposerFixture,
+): ComposerResponse => ({
+  composerName: composerId,
+  version: DEFAULT_VERSION,
+  segments: [],
+  ...fixture,
+  composerId,
+  config: {
+    schema: [],
+    inputData: null,
+    inputDataRootName: null,
+    ...fixture.config,
+  },
+});
+
+// Answers every generateText / streamText call with the same text; each
+// model records its calls in doGenerateCalls and doStreamCalls
+const createMockModel = (modelId: string, text: string) => {
+  const usage = {
+    inputTokens: {
+      total: 0,
+      noCache: 0,
+      cacheRead: undefined,
+      cacheWrite: undefined,
+    },
+    outputTokens: { total: 0, text: 0, reasoning: undefined },
+  };
+  const finishReason = { unified: 'stop', raw: undefined } as const;
+
+  return new MockLanguageModelV3({
+    provider: 'promptly-mock',
+    modelId,
+    doGenerate: async () => ({
+      content: [{ type: 'text', text }],
+      finishReason,
+      usage,
+      warnings: [],
+    }),
+    doStream: async () => ({
+      stream: simulateReadableStream({
+        initialDelayInMs: null,
+        chunkDelayInMs: null,
+        chunks: [
+          { type: 'stream-start', warnings: [] },
+          { type: 'text-start', id: 'text-1' },
+          { type: 'text-delta', id: 'text-1', delta: text },
+          { type: 'text-end', id: 'text-1' },
+          { type: 'finish', finishReason, usage },
+        ],
+      }),
+    }),
+  });
+};
+
+const notFound = (kind: string, id: string, version?: string) =>
+  version
+    ? new PromptlyError(
+        `No ${kind} fixture for "${id}" version ${version}`,
+        'VERSION_NOT_FOUND',
+        404,
+      )
+    : new PromptlyError(`No ${kind} fixture for "${id}"`, 'NOT_FOUND', 404);
+
+// A PromptlyClient backed by in-memory fixtures and mock models, for testing
+// code that calls the client without network access or provider packages
+export const createMockPromptlyClient = (
+  options: MockPromptlyClientOptions = {},
+): MockPromptlyClient => {
+  const prompts = Object.entries(options.prompts ?? {}).map(([id, fixture]) =>
+    toPromptResponse(id, fixture ?? {}),
+  );
+  const composers = Object.entries(options.composers ?? {}).map(
+    ([id, fixture]) =>
+      toComposerResponse(id, (fixture as MockComposerFixture) ?? {}),
+  );
+  const calls: HookTarget[] = [];
+
+  const source: PromptlySource = {
+    getPrompt: async (promptId, version) => {
+      calls.push({ type: 'prompt', id: promptId, version });
+      const prompt = findSnapshotPrompt({ prompts }, promptId, version);
+      if (!prompt) {
+        throw notFound(
+          'prompt',
+          promptId,
+          prompts.some((p) => p.promptId === promptId) ? version : undefined,
+        );
+      }
+      return prompt;
+    },
+    getComposer: async (composerId, version) => {
+      calls.push({ type: 'composer', id: composerId, version });
+      const composer = findSnapshotComposer({ composers }, composerId, version);
+      if (!composer) {
+        throw notFound(
+          'composer',
+          composerId,
+          composers.some((c) => c.composerId === composerId)
+            ? version
+            : undefined,
+        );
+      }
+      return composer;
+    },
+    listPrompts: async () => prompts,
+    listComposers: async () => composers,
+  };
+
+  const responseFor = (modelId: string) =>
+    typeof options.response === 'function'
+      ? options.response(modelId)
+      : (options.response ?? DEFAULT_RESPONSE);
+
+  const client = createPromptlyClient({
+    ...options.config,
+    apiKey: 'mock',
+    source,
+    model: (modelId) => createMockModel(modelId, responseFor(modelId)),
+  });
+
+  return Object.assign(client, { calls });
+};
@@ -0,0 +1,231 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { PromptlyError } from '../errors.ts';
+import { fileSource } from '../source/file.ts';
+import type {
+  ErrorCode,
+  ErrorResponse,
+  PromptlyTestServer,
+  PromptlyTestServerOptions,
+} from '../types.ts';
+
+const DEFAULT_LIMIT = 10_000;
+const UPGRADE_URL = 'https://app.promptlycms.com/settings?upgrade';
+const ALLOWED_METHODS = 'GET, OPTIONS';
+const ROUTE_REGEX = /^\/(prompts|composers)(?:\/([^/]+))?\/?$/;
+
+const errorResponse = (
+  error: string,
+  code: ErrorCode,
+  status: number,
+  init?: { headers?: Headers; usage?: unknown },
+): Response => {
+  const body: ErrorResponse = { error, code };
+  if (init?.usage) {
+    body.usage = init.usage;
+    body.upgradeUrl = UPGRADE_URL;
+  }
+  return Response.json(body, { status, headers: init?.headers });
+};
+
+const methodNotAllowed = (headers = new Headers()): Response => {
+  headers.set('Allow', ALLOWED_METHODS);
+  return errorResponse('Method not allowed', 'METHOD_NOT_ALLOWED', 405, {
+    headers,
+  });
+};
+
+// The API's quota resets at the start of each calendar month (UTC)
+const startOfNextMonth = (): Date => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+};
+
+// The list endpoints only return older versions with include_versions=true
+const withoutVersions = <T extends { publishedVersions?: unknown }>(
+  entry: T,
+): T => {
+  const { publishedVersions: _, ...rest } = entry;
+  return rest as T;
+};
+
+const createHandler = (
+  options: PromptlyTestServerOptions,
+): ((request: Request) => Promise<Response>) => {
+  const source =
+    typeof options.fixtures === 'string'
+      ? fileSource(options.fixtures)
+      : options.fixtures;
+  const limit = options.rateLimit?.limit ?? DEFAULT_LIMIT;
+  const resetAt = options.rateLimit?.resetAt ?? startOfNextMonth();
+  let remaining = options.rateLimit?.remaining ?? limit;
+
+  const authorize = (request: Request): Response | undefined => {
+    const header = request.headers.get('Authorization');
+    const key = header?.startsWith('Bearer ') ? header.slice(7).trim() : '';
+    if (!key) {
+      return errorResponse('Missing API key', 'UNAUTHORIZED', 401);
+    }
+    if (options.apiKey !== undefined && key !== options.apiKey) {
+      return errorResponse('Invalid API key', 'INVALID_KEY', 401);
+    }
+    return undefined;
+  };
+
+  const lookup = async (
+    kind: 'prompts' | 'composers',
+    id: string | undefined,
+    url: URL,
+  ): Promise<unknown> => {
+    const version = url.searchParams.get('version') ?? undefined;
+    const includeVersions = url.searchParams.get('include_versions') === 'true';
+    const strip = <T extends { publishedVersions?: unknown }>(entry: T) =>
+      includeVersions ? entry : withoutVersions(entry);
+
+    if (kind === 'prompts') {
+      return id
+        ? strip(await source.getPrompt(id, version))
+        : (await source.listPrompts()).map(strip);
+    }
+    return id
+      ? strip(await source.getComposer(id, version))
+      : (await source.listComposers()).map(strip);
+  };
+
+  return async (request) => {
+    // The API is read-only; OPTIONS answers without a key, like a preflight
+    if (request.method === 'OPTIONS') {
+      return new Response(null, {
+        status: 204,
+        headers: { Allow: ALLOWED_METHODS },
+      });
+    }
+    const unauthorized = authorize(request);
+    if (unauthorized) {
+      return unauthorized;
+    }
+
+    const exhausted = remaining <= 0;
+    remaining = Math.max(0, remaining - 1);
+    const headers = new Headers({
+      'X-RateLimit-Limit': String(limit),
+      'X-RateLimit-Remaining': String(remaining),
+      'X-RateLimit-Reset': String(Math.floor(resetAt.getTime() / 1000)),
+    });
+    if (exhausted) {
+      headers.set(
+        'Retry-After',
+        String(Math.max(0, Math.ceil((resetAt.getTime() - Date.now()) / 1000))),
+      );
+      return errorResponse(
+        'Usage limit exceeded',
+        'USAGE_LIMIT_EXCEEDED',
+        429,
+        {
+          headers,
+          usage: { used: limit, limit },
+        },
+      );
+    }
+
+    const url = new URL(request.url);
+    const route = ROUTE_REGEX.exec(url.pathname);
+    if (!route) {
+      return errorResponse(`No route for ${url.pathname}`, 'NOT_FOUND', 404, {
+        headers,
+      });
+    }
+    if (request.method !== 'GET') {
+      return methodNotAllowed(headers);
+    }
+
+    const [, kind, id] = route;
+    try {
+      const body = await lookup(
+        kind as 'prompts' | 'composers',
+        id && decodeURIComponent(id),
+        url,
+      );
+      return Response.json(body, { headers });
+    } catch (error) {
+      // Invalid fixture files surface as server errors with the file's path
+      if (error instanceof PromptlyError && error.status > 0) {
+        return errorResponse(error.message, error.code, error.status, {
+          headers,
+        });
+      }
+      return errorResponse(
+        error instanceof Error ? error.message : String(error),
+        'INTERNAL_ERROR',
+        500,
+        { headers },
+      );
+    }
+  };
+};
+
+const toRequest = (message: IncomingMessage, base: string): Request => {
+  const headers = new Headers();
+  for (const [name, value] of Object.entries(message.headers)) {
+    for (const item of Array.isArray(value) ? value : [value]) {
+      if (item !== undefined) {
+        headers.append(name, item);
+      }
+    }
+  }
+  return new Request(new URL(message.url ?? '/', base).toString(), {
+    method: message.method,
+    headers,
+  });
+};
+
+const listen = (server: Server, port: number, hostname: string) =>
+  new Promise<AddressInfo>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, hostname, () => {
+      server.off('error', reject);
+      resolve(server.address() as AddressInfo);
+    });
+  });
+
+// A local stand-in for the Promptly API backed by fixtures, for integration
+// tests and running the CLI in CI without network access
+export const createPromptlyTestServer = async (
+  options: PromptlyTestServerOptions,
+): Promise<PromptlyTestServer> => {
+  const handle = createHandler(options);
+  const hostname = options.hostname ?? '127.0.0.1';
+  let url = '';
+
+  const server = createServer(async (message, res) => {
+    let response: Response;
+    try {
+      response = await handle(toRequest(message, url));
+    } catch (error) {
+      // Request rejects methods such as TRACE and CONNECT; nothing a
+      // client sends may take the server down
+      response = ['GET', 'OPTIONS'].includes(message.method ?? '')
+        ? errorResponse(
+            error instanceof Error ? error.message : String(error),
+            'INTERNAL_ERROR',
+            500,
+          )
+        : methodNotAllowed();
+    }
+    res.writeHead(response.status, Object.fromEntries(response.headers));
+    res.end(await response.text());
+  });
+  const address = await listen(server, options.port ?? 0, hostname);
+  url = `http://${hostname.includes(':') ? `[${hostname}]` : hostname}:${address.port}`;
+
+  return {
+    url,
+    fetch: (input, init) =>
+      handle(new Request(new URL(input, url).toString(), init)),
+    close: () =>
+      new Promise<void>((resolve, reject) => {
+        server.closeAllConnections();
+        server.close((error) => (error ? reject(error) : resolve()));
+      }),
+  };
+};
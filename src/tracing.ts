@@ -0,0 +1,61 @@
+import type { Attributes } from '@opentelemetry/api';
+import type { HookTarget } from './types.ts';
+
+const TRACER_NAME = '@promptlycms/prompts';
+
+export type SpanHandle = {
+  setAttributes: (attributes: Attributes) => void;
+};
+
+const NOOP_SPAN: SpanHandle = {
+  setAttributes: () => {},
+};
+
+// Loaded once. Resolves to undefined when @opentelemetry/api isn't installed,
+// in which case every span below is skipped. Like resolveModel, the import
+// uses a string literal so bundlers can resolve it statically.
+let openTelemetry:
+  | Promise<typeof import('@opentelemetry/api') | undefined>
+  | undefined;
+
+const loadOpenTelemetry = () => {
+  openTelemetry ??= import('@opentelemetry/api').catch(() => undefined);
+  return openTelemetry;
+};
+
+export const withSpan = async <T>(
+  name: string,
+  attributes: Attributes,
+  run: (span: SpanHandle) => Promise<T>,
+): Promise<T> => {
+  const api = await loadOpenTelemetry();
+  if (!api) {
+    return run(NOOP_SPAN);
+  }
+
+  // Looked up per span so a tracer provider registered after the client
+  // was created is still picked up.
+  const tracer = api.trace.getTracer(TRACER_NAME);
+  return tracer.startActiveSpan(name, { attributes }, async (span) => {
+    try {
+      return await run({
+        setAttributes: (next) => {
+          span.setAttributes(next);
+        },
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      span.recordException(error instanceof Error ? error : message);
+      span.setStatus({ code: api.SpanStatusCode.ERROR, message });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+};
+
+export const targetAttributes = (target: HookTarget): Attributes => ({
+  [target.type === 'prompt' ? 'promptly.prompt_id' : 'promptly.composer_id']:
+    target.id,
+  'promptly.version': target.version ?? 'latest',
+});
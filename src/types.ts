@@ -100,6 +100,27 @@ type VariablesFor<
     : Record<string, unknown>
   : Record<string, unknown>;
 
+// What strict interpolation does with variables the template never
+// references (default: 'warn'); missing variables always throw
+export type StrictOptions = {
+  unused?: 'ignore' | 'warn' | 'throw';
+};
+
+export type TemplateFilterArg = string | number | boolean;
+
+// Transforms a value piped through `${name | filter(arg)}`; the result is
+// rendered like any other variable
+export type TemplateFilter = (
+  value: unknown,
+  ...args: TemplateFilterArg[]
+) => unknown;
+
+export type InterpolateOptions = {
+  strict?: boolean | StrictOptions;
+  // Custom filters by name, checked before the built-ins
+  filters?: Record<string, TemplateFilter>;
+};
+
 // Generic over variable shape
 export type PromptMessage<
   V extends Record<string, unknown> = Record<string, unknown>,
@@ -198,13 +219,25 @@ export type ComposerVersion<Id extends string> =
     ? Exclude<keyof ComposerVariableMap[Id], 'latest'>
     : string;
 
+// Trusted HTML from rawHtml(); composer segments insert it unescaped
+export type RawHtml = { readonly html: string };
+
+// Lets any string in generated composer input be passed as rawHtml()
+type AllowRawHtml<T> = T extends string
+  ? T | RawHtml
+  : T extends readonly (infer Item)[]
+    ? AllowRawHtml<Item>[]
+    : T extends object
+      ? { [K in keyof T]: AllowRawHtml<T[K]> }
+      : T;
+
 // Resolves input shape for a composer ID + version (default: latest)
 export type ComposerInputFor<
   Id extends string,
   Ver extends string = 'latest',
 > = Id extends keyof ComposerVariableMap
   ? Ver extends keyof ComposerVariableMap[Id]
-    ? ComposerVariableMap[Id][Ver]
+    ? AllowRawHtml<ComposerVariableMap[Id][Ver]>
     : Record<string, unknown>
   : Record<string, unknown>;
 
@@ -251,6 +284,10 @@ export type GetComposerOptions<
 > = {
   input?: ComposerInputFor<Id, V>;
   version?: V;
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+  // Overrides the client's `strict` for this composer's input
+  strict?: boolean | StrictOptions;
 };
 
 // --- Composer batch types ---
@@ -268,6 +305,39 @@ type GetComposersResults<T extends readonly ComposerRequest[]> = {
     : ComposerResult;
 };
 
+// --- Snapshot types ---
+
+// Written by `promptly pull` and accepted by createPromptlyClient({ fallback })
+export type PromptlySnapshot = {
+  pulledAt: string;
+  prompts: PromptResponse[];
+  composers: ComposerResponse[];
+};
+
+// --- Source types ---
+
+// Where the client reads prompts and composers from in place of the API.
+// Lookups reject with a NOT_FOUND or VERSION_NOT_FOUND PromptlyError.
+export type PromptlySource = {
+  getPrompt: (promptId: string, version?: string) => Promise<PromptResponse>;
+  getComposer: (
+    composerId: string,
+    version?: string,
+  ) => Promise<ComposerResponse>;
+  listPrompts: () => Promise<PromptResponse[]>;
+  listComposers: () => Promise<ComposerResponse[]>;
+  // Fetch from the API whatever this source rejects with NOT_FOUND or
+  // VERSION_NOT_FOUND, instead of failing the lookup
+  fallbackToApi?: boolean;
+};
+
+export type OverrideSourceOptions = {
+  // Local overrides are refused when NODE_ENV=production unless this is set
+  allowInProduction?: boolean;
+  // Log which source served each lookup; `true` logs with console.debug
+  debug?: boolean | ((message: string) => void);
+};
+
 export type ErrorCode =
   | 'UNAUTHORIZED'
   | 'INVALID_KEY'
@@ -275,7 +345,29 @@ export type ErrorCode =
   | 'VERSION_NOT_FOUND'
   | 'BAD_REQUEST'
   | 'USAGE_LIMIT_EXCEEDED'
-  | 'UNRESOLVED_PROMPT';
+  | 'METHOD_NOT_ALLOWED'
+  | 'INTERNAL_ERROR'
+  | 'UNRESOLVED_PROMPT'
+  | 'TIMEOUT'
+  | 'ABORTED'
+  | 'NETWORK_ERROR'
+  | 'MISSING_VARIABLES'
+  | 'UNUSED_VARIABLES'
+  | 'UNKNOWN_FILTER';
+
+export type PromptlyErrorDetails = {
+  // Number of requests made before giving up, including retries
+  attempts?: number;
+  // The fetch error behind a NETWORK_ERROR
+  cause?: unknown;
+  // Parsed from the Retry-After response header
+  retryAfterMs?: number;
+  // When the monthly quota resets, parsed from X-RateLimit-Reset
+  resetAt?: Date;
+  // Set by strict interpolation
+  missingVariables?: string[];
+  unusedVariables?: string[];
+};
 
 export type ErrorResponse = {
   error: string;
@@ -286,14 +378,265 @@ export type ErrorResponse = {
 
 // --- Client types ---
 
+export type CacheOptions = {
+  // Milliseconds a `latest` lookup stays cached; pinned versions never expire
+  ttl?: number;
+  // Least recently used entries are evicted beyond this size (in-memory store only)
+  maxEntries?: number;
+  // Serve expired `latest` entries immediately and refresh them in the background
+  staleWhileRevalidate?: boolean;
+  onRevalidate?: (event: RevalidateEvent) => void;
+  // Where entries live; defaults to an in-memory store
+  store?: CacheStore;
+  // Milliseconds an expired `latest` entry is kept for stale reads and
+  // conditional refreshes before the store may drop it (default: 1 day)
+  staleTtl?: number;
+};
+
+// What a CacheStore persists for each prompt or composer lookup
+export type CacheRecord = ConditionalEntry<
+  PromptResponse | ComposerResponse
+> & {
+  type: 'prompt' | 'composer';
+  // Resolved version of the stored response
+  version: string;
+  // Unix ms after which the entry is stale; absent for pinned versions
+  expiresAt?: number;
+};
+
+// Methods may be sync or async. `ttl` is how long the store should retain
+// the record in milliseconds; undefined means indefinitely.
+export type CacheStore = {
+  get: (
+    key: string,
+  ) => CacheRecord | undefined | Promise<CacheRecord | undefined>;
+  set: (key: string, record: CacheRecord, ttl?: number) => void | Promise<void>;
+  delete: (key: string) => void | Promise<void>;
+};
+
+// Minimal string key-value client, e.g. a Redis client or an edge KV binding
+export type KeyValueAdapter = {
+  get: (key: string) => Promise<string | null | undefined>;
+  set: (key: string, value: string, ttl?: number) => Promise<unknown>;
+  delete: (key: string) => Promise<unknown>;
+};
+
+export type KeyValueCacheStoreOptions = {
+  // Prepended to every key (default: 'promptly:')
+  prefix?: string;
+};
+
+export type RevalidateEvent = {
+  type: 'prompt' | 'composer';
+  id: string;
+  previousVersion: string;
+  version: string;
+};
+
+export type RetryOptions = {
+  // Total attempts including the first request (default: 3)
+  maxAttempts?: number;
+  // Delay before the first retry, doubled on each subsequent attempt (default: 200)
+  baseDelayMs?: number;
+  // Upper bound for a single delay; a longer Retry-After is not waited out (default: 5000)
+  maxDelayMs?: number;
+  // Randomise each delay between 0 and the backoff value (default: true)
+  jitter?: boolean;
+  // HTTP statuses worth retrying (default: 429, 500, 502, 503, 504)
+  retryOn?: number[];
+};
+
+export type RateLimitUsage = {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+};
+
+export type RateLimitEvent = RateLimitUsage & {
+  // Fraction of the quota remaining that was crossed, e.g. 0.1 for 10%
+  threshold: number;
+};
+
+export type FetchFn = (url: string, init?: RequestInit) => Promise<Response>;
+
+// How a response was served: `stale` is an expired entry served while it
+// refreshes, `fallback` comes from the snapshot in `fallback`
+export type CacheStatus =
+  | 'hit'
+  | 'stale'
+  | 'miss'
+  | 'bypass'
+  | 'fallback'
+  | 'disabled';
+
+export type HookTarget = {
+  type: 'prompt' | 'composer';
+  id: string;
+  version?: string;
+};
+
+// `url` and `headers` can be modified in place before the request is sent
+export type RequestHookContext = HookTarget & {
+  url: URL;
+  headers: Record<string, string>;
+};
+
+export type ResponseHookContext = (
+  | { type: 'prompt'; response: PromptResponse }
+  | { type: 'composer'; response: ComposerResponse }
+) &
+  HookTarget & {
+    cacheStatus: CacheStatus;
+    latencyMs: number;
+  };
+
+export type ErrorHookContext = HookTarget & {
+  error: unknown;
+  latencyMs: number;
+};
+
+export type ModelResolvedHookContext = {
+  modelId: string;
+  model: import('ai').LanguageModel;
+  latencyMs: number;
+};
+
+// biome-ignore lint/suspicious/noConfusingVoidType: hooks that only observe return nothing
+type ResponseHookResult = void | PromptResponse | ComposerResponse;
+
+export type PromptlyHooks = {
+  // Called before every prompt or composer request, including retries and
+  // background refreshes
+  onRequest?: (context: RequestHookContext) => void | Promise<void>;
+  // Called for every lookup, cached or not; a returned response replaces the
+  // parsed one for this call only and is never written to the cache
+  onResponse?: (
+    context: ResponseHookContext,
+  ) => ResponseHookResult | Promise<ResponseHookResult>;
+  // Called when a lookup fails after retries and fallback
+  onError?: (context: ErrorHookContext) => void | Promise<void>;
+  onModelResolved?: (context: ModelResolvedHookContext) => void | Promise<void>;
+};
+
+export type WatchOptions = {
+  // Milliseconds between polls (default: 30000)
+  interval?: number;
+  // Upper bound for the poll delay while requests keep failing (default: 300000)
+  maxInterval?: number;
+};
+
+export type WatchSubscribeOptions = {
+  // Called when a poll or building the result fails; polling continues
+  onError?: (error: unknown) => void;
+};
+
 export type PromptlyClientConfig = {
   apiKey?: string;
   baseUrl?: string;
+  // Used for every API request instead of the global fetch
+  fetch?: FetchFn;
+  // Sent with every API request; Authorization is always set from apiKey
+  headers?: Record<string, string>;
   model?: (modelId: string) => import('ai').LanguageModel;
+  cache?: boolean | CacheOptions;
+  // Served when the API is unreachable, returns a 5xx or rate limits (429)
+  fallback?: PromptlySnapshot;
+  retry?: boolean | RetryOptions;
+  // Abort each request after this many milliseconds with a TIMEOUT error
+  timeoutMs?: number;
+  // Called once per threshold as remaining quota drops below it
+  onRateLimit?: (event: RateLimitEvent) => void;
+  // Fractions of the quota remaining (default: 0.2, 0.1, 0.05)
+  rateLimitThresholds?: number[];
+  hooks?: PromptlyHooks;
+  // Polling shared by every client.watch() subscriber
+  watch?: WatchOptions;
+  // Read prompts and composers from here instead of the API; no API key needed
+  source?: PromptlySource;
+  // Record API responses to this file, or replay them from it
+  cassette?: string | CassetteOptions;
+  // Throw on missing template variables instead of leaving placeholders in
+  // the output, and report unused ones
+  strict?: boolean | StrictOptions;
+  // Custom template filters by name, e.g. `${price | currency("EUR")}`;
+  // they take precedence over the built-ins
+  filters?: Record<string, TemplateFilter>;
+};
+
+// `record` calls the API and saves every response; `replay` only serves
+// saved responses (default: `record` when PROMPTLY_RECORD=1, else `replay`)
+export type CassetteMode = 'record' | 'replay';
+
+export type CassetteOptions = {
+  path: string;
+  mode?: CassetteMode;
+};
+
+export type CassetteInteraction = {
+  // Path and query only, so a cassette replays against any base URL
+  request: { method: string; url: string };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    // Parsed when the response is JSON, the raw text otherwise
+    body: unknown;
+  };
+};
+
+// Contents of a cassette file
+export type PromptlyCassette = {
+  recordedAt: string;
+  interactions: CassetteInteraction[];
+};
+
+// A response body with the validators needed to revalidate it
+export type ConditionalEntry<T = unknown> = {
+  body: T;
+  etag?: string;
+  lastModified?: string;
+};
+
+// Keyed by request URL; a Map<string, ConditionalEntry> works as is
+export type ConditionalCache = {
+  get: (url: string) => ConditionalEntry | undefined;
+  set: (url: string, entry: ConditionalEntry) => void;
+};
+
+// Request plumbing shared by the client and the codegen list fetches
+export type TransportOptions = Pick<
+  PromptlyClientConfig,
+  'fetch' | 'headers'
+> & {
+  // Remembers list responses so repeat fetches are conditional and reuse
+  // the stored body on 304 Not Modified
+  conditionalCache?: ConditionalCache;
 };
 
 export type GetOptions<V extends string = string> = {
   version?: V;
+  // Skip the cache lookup for this call; the fresh response is still cached
+  bypassCache?: boolean;
+  signal?: AbortSignal;
+  // Overrides the client's `strict` for this prompt's userMessage()
+  strict?: boolean | StrictOptions;
+};
+
+export type BatchOptions = {
+  signal?: AbortSignal;
+};
+
+export type PreloadRequest = {
+  prompts?: readonly (PromptId | PromptRequest)[];
+  composers?: readonly (ComposerId | Omit<ComposerRequest, 'input'>)[];
+};
+
+export type PreloadFailure = HookTarget & {
+  error: unknown;
+};
+
+export type PreloadReport = {
+  loaded: HookTarget[];
+  failed: PreloadFailure[];
 };
 
 export type PromptlyClient = {
@@ -307,6 +650,7 @@ export type PromptlyClient = {
 
   getPrompts: <const T extends readonly PromptRequest[]>(
     entries: T,
+    options?: BatchOptions,
   ) => Promise<GetPromptsResults<T>>;
 
   getComposer: <
@@ -319,5 +663,113 @@ export type PromptlyClient = {
 
   getComposers: <const T extends readonly ComposerRequest[]>(
     entries: T,
+    options?: BatchOptions,
   ) => Promise<GetComposersResults<T>>;
+
+  // Fetches every entry into the cache; failures are reported, not thrown
+  preload: (
+    request: PreloadRequest,
+    options?: BatchOptions,
+  ) => Promise<PreloadReport>;
+
+  // Caches the latest version of every prompt and composer from the list
+  // endpoints; rejects if either list cannot be fetched
+  preloadAll: (options?: BatchOptions) => Promise<PreloadReport>;
+
+  // Removes the cached entry for `version`, or the latest entry when omitted
+  invalidate: (target: HookTarget) => Promise<void>;
+
+  // Polls the latest version and calls back with the rebuilt result each
+  // time it changes. Returns an unsubscribe function.
+  watch: {
+    <T extends string>(
+      target: { promptId: T },
+      callback: (result: PromptResult<VariablesFor<T, 'latest'>>) => void,
+      options?: WatchSubscribeOptions,
+    ): () => void;
+    <T extends ComposerId>(
+      target: { composerId: T; input?: ComposerInputFor<T, 'latest'> },
+      callback: (result: ComposerResult<ComposerPromptNamesFor<T>>) => void,
+      options?: WatchSubscribeOptions,
+    ): () => void;
+  };
+
+  // Quota from the most recent API response; undefined before the first request
+  getUsage: () => RateLimitUsage | undefined;
+};
+
+export type PromptlyWebhookEventType =
+  | 'prompt.published'
+  | 'prompt.unpublished'
+  | 'composer.published'
+  | 'composer.unpublished';
+
+// Body of a webhook request, signed with the shared secret
+export type PromptlyWebhookEvent = {
+  type: PromptlyWebhookEventType;
+  id: string;
+  version: string;
+};
+
+export type PromptlyWebhookHandlerOptions = {
+  client: PromptlyClient;
+  secret: string;
+  // Refetch the latest version after invalidating it (default: false)
+  refresh?: boolean;
+  // Called after the cache has been updated for a verified event
+  onEvent?: (event: PromptlyWebhookEvent) => void | Promise<void>;
+};
+
+// --- Testing types ---
+
+// Every field is optional; promptName defaults to the ID and the model to
+// `mock-model`
+export type MockPromptFixture = Partial<
+  Omit<PromptResponse, 'promptId' | 'config'>
+> & {
+  config?: Partial<PromptConfig>;
+};
+
+export type MockComposerFixture = Partial<
+  Omit<ComposerResponse, 'composerId' | 'config'>
+> & {
+  config?: Partial<ComposerConfig>;
+};
+
+export type MockPromptlyClientOptions = {
+  prompts?: { [K in PromptId]?: MockPromptFixture };
+  composers?: { [K in ComposerId]?: MockComposerFixture };
+  // Text every mock model generates (default: 'Mock response')
+  response?: string | ((modelId: string) => string);
+  // Any other client options, such as hooks or cache
+  config?: Omit<
+    PromptlyClientConfig,
+    'apiKey' | 'baseUrl' | 'fetch' | 'model' | 'source'
+  >;
+};
+
+export type MockPromptlyClient = PromptlyClient & {
+  // Every prompt and composer lookup that reached the fixtures, in order
+  calls: HookTarget[];
+};
+
+export type PromptlyTestServerOptions = {
+  // A fixtures directory read with fileSource(), or any PromptlySource
+  fixtures: string | PromptlySource;
+  // Only this key is accepted; any bearer token is when omitted
+  apiKey?: string;
+  // Quota reported in X-RateLimit-* headers; requests beyond it get a 429
+  // (default: 10000 requests, resetting at the start of next month)
+  rateLimit?: { limit: number; remaining?: number; resetAt?: Date };
+  // Default: a free port on 127.0.0.1
+  port?: number;
+  hostname?: string;
+};
+
+export type PromptlyTestServer = {
+  // Base URL to pass as `baseUrl` or `--base-url`
+  url: string;
+  // Serves a request in-process, without going through the network
+  fetch: FetchFn;
+  close: () => Promise<void>;
 };
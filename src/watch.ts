@@ -0,0 +1,68 @@
+import type { WatchOptions } from './types.ts';
+
+const DEFAULT_WATCH_INTERVAL = 30_000;
+const DEFAULT_WATCH_MAX_INTERVAL = 300_000;
+
+export type ResolvedWatchOptions = {
+  interval: number;
+  maxInterval: number;
+};
+
+export const resolveWatchOptions = (
+  options?: WatchOptions,
+): ResolvedWatchOptions => ({
+  interval: options?.interval ?? DEFAULT_WATCH_INTERVAL,
+  maxInterval: options?.maxInterval ?? DEFAULT_WATCH_MAX_INTERVAL,
+});
+
+export type PollLoop = {
+  start: () => void;
+  stop: () => void;
+};
+
+// `tick` resolves to false when any poll failed; consecutive failures double
+// the delay up to maxInterval, and a clean tick resets it.
+export const createPollLoop = (
+  options: ResolvedWatchOptions,
+  tick: () => Promise<boolean>,
+): PollLoop => {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let running = false;
+  let failures = 0;
+  // Bumped by start() and stop(), so a tick still in flight from a stopped
+  // loop doesn't reschedule alongside a restarted one
+  let generation = 0;
+
+  const schedule = (current: number) => {
+    const delay = Math.min(
+      options.maxInterval,
+      options.interval * 2 ** failures,
+    );
+    timer = setTimeout(() => run(current), delay);
+  };
+
+  const run = async (current: number) => {
+    const ok = await tick();
+    if (current !== generation) {
+      return;
+    }
+    failures = ok ? 0 : failures + 1;
+    schedule(current);
+  };
+
+  return {
+    start: () => {
+      if (running) {
+        return;
+      }
+      running = true;
+      failures = 0;
+      schedule(++generation);
+    },
+    stop: () => {
+      running = false;
+      generation++;
+      clearTimeout(timer);
+    },
+  };
+};
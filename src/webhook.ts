@@ -0,0 +1,150 @@
+import type {
+  ComposerId,
+  HookTarget,
+  PromptlyWebhookEvent,
+  PromptlyWebhookEventType,
+  PromptlyWebhookHandlerOptions,
+} from './types.ts';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Promptly-Signature';
+
+const SIGNATURE_PREFIX = 'sha256=';
+
+const EVENT_TYPES: readonly PromptlyWebhookEventType[] = [
+  'prompt.published',
+  'prompt.unpublished',
+  'composer.published',
+  'composer.unpublished',
+];
+
+const encoder = new TextEncoder();
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign', 'verify'],
+  );
+
+const toHex = (bytes: ArrayBuffer): string =>
+  Array.from(new Uint8Array(bytes), (b) =>
+    b.toString(16).padStart(2, '0'),
+  ).join('');
+
+const fromHex = (hex: string): Uint8Array<ArrayBuffer> | undefined => {
+  if (hex.length === 0 || hex.length % 2 !== 0 || /[^0-9a-f]/i.test(hex)) {
+    return undefined;
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = Number.parseInt(hex.slice(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+};
+
+// Signature header value for a raw request body, e.g. to post sample
+// payloads to a local handler
+export const signPromptlyWebhook = async (
+  body: string,
+  secret: string,
+): Promise<string> => {
+  const key = await importKey(secret);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(body));
+  return `${SIGNATURE_PREFIX}${toHex(signature)}`;
+};
+
+// crypto.subtle.verify compares in constant time
+const verifySignature = async (
+  body: string,
+  header: string | null,
+  secret: string,
+): Promise<boolean> => {
+  if (!header?.startsWith(SIGNATURE_PREFIX)) {
+    return false;
+  }
+  const signature = fromHex(header.slice(SIGNATURE_PREFIX.length));
+  if (!signature) {
+    return false;
+  }
+  const key = await importKey(secret);
+  return crypto.subtle.verify('HMAC', key, signature, encoder.encode(body));
+};
+
+const parseEvent = (body: string): PromptlyWebhookEvent | undefined => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(body);
+  } catch {
+    return undefined;
+  }
+  if (typeof parsed !== 'object' || parsed === null) {
+    return undefined;
+  }
+  const { type, id, version } = parsed as Record<string, unknown>;
+  if (
+    !EVENT_TYPES.includes(type as PromptlyWebhookEventType) ||
+    typeof id !== 'string' ||
+    typeof version !== 'string'
+  ) {
+    return undefined;
+  }
+  return { type: type as PromptlyWebhookEventType, id, version };
+};
+
+const errorResponse = (error: string, status: number): Response =>
+  Response.json({ error }, { status });
+
+export const createPromptlyWebhookHandler = (
+  options: PromptlyWebhookHandlerOptions,
+): ((request: Request) => Promise<Response>) => {
+  const { client, secret } = options;
+
+  const applyEvent = async (event: PromptlyWebhookEvent): Promise<void> => {
+    const [kind, action] = event.type.split('.') as [
+      HookTarget['type'],
+      'published' | 'unpublished',
+    ];
+    // Either event can change what `latest` resolves to; an unpublished
+    // version must also stop being served to callers that pinned it.
+    await client.invalidate({ type: kind, id: event.id });
+    if (action === 'unpublished') {
+      await client.invalidate({
+        type: kind,
+        id: event.id,
+        version: event.version,
+      });
+    }
+    if (options.refresh) {
+      // Failures are reported, not thrown; the next lookup fetches instead
+      await client.preload(
+        kind === 'prompt'
+          ? { prompts: [event.id] }
+          : { composers: [event.id as ComposerId] },
+      );
+    }
+  };
+
+  return async (request) => {
+    if (request.method !== 'POST') {
+      return new Response(null, { status: 405, headers: { Allow: 'POST' } });
+    }
+    const body = await request.text();
+    const verified = await verifySignature(
+      body,
+      request.headers.get(WEBHOOK_SIGNATURE_HEADER),
+      secret,
+    );
+    if (!verified) {
+      return errorResponse('Invalid signature', 401);
+    }
+    const event = parseEvent(body);
+    if (!event) {
+      return errorResponse('Invalid event payload', 400);
+    }
+    await applyEvent(event);
+    await options.onEvent?.(event);
+    return Response.json({ received: true });
+  };
+};
@@ -5,10 +5,16 @@ export default defineConfig([
     entry: {
       index: 'src/index.ts',
       schema: 'src/schema/index.ts',
+      cache: 'src/cache/index.ts',
+      source: 'src/source/index.ts',
+      testing: 'src/testing/index.ts',
     },
     format: ['esm', 'cjs'],
+    // CJS entries share chunks too, so PromptlyError and the rawHtml registry
+    // are one module whichever entry they're imported from
+    splitting: true,
     dts: true,
-    external: ['zod', 'ai', /^@ai-sdk\//],
+    external: ['zod', 'ai', /^@ai-sdk\//, '@opentelemetry/api'],
     clean: true,
   },
   {
@@ -17,6 +23,6 @@ export default defineConfig([
     },
     format: ['esm'],
     banner: { js: '#!/usr/bin/env node' },
-    external: ['zod', 'ai', /^@ai-sdk\//],
+    external: ['zod', 'ai', /^@ai-sdk\//, '@opentelemetry/api'],
   },
 ]);